@@ -0,0 +1,74 @@
+import { DexSourceAdapter } from '../types';
+import { UniswapV2Adapter } from './uniswap-v2-adapter';
+import { SushiSwapV2Adapter } from './sushiswap-v2-adapter';
+import { UniswapV3Adapter } from './uniswap-v3-adapter';
+import { PancakeSwapV3Adapter } from './pancakeswap-v3-adapter';
+import { CurveAdapter } from './curve-adapter';
+import { BalancerWeightedAdapter } from './balancer-weighted-adapter';
+
+/**
+ * Registry mapping source files to the adapter that understands them
+ */
+export class DexAdapterRegistry {
+  private adapters: DexSourceAdapter[] = [];
+
+  /**
+   * Registry with all built-in adapters
+   */
+  static createDefault(): DexAdapterRegistry {
+    return new DexAdapterRegistry()
+      .register(new UniswapV2Adapter())
+      .register(new SushiSwapV2Adapter())
+      .register(new UniswapV3Adapter())
+      .register(new PancakeSwapV3Adapter())
+      .register(new CurveAdapter())
+      .register(new BalancerWeightedAdapter());
+  }
+
+  /**
+   * Register an adapter (dex types must be unique)
+   */
+  register(adapter: DexSourceAdapter): this {
+    if (this.adapters.some(a => a.dexType === adapter.dexType)) {
+      throw new Error(`DEX adapter already registered for ${adapter.dexType}`);
+    }
+    this.adapters.push(adapter);
+    return this;
+  }
+
+  /**
+   * Get all registered adapters
+   */
+  list(): DexSourceAdapter[] {
+    return [...this.adapters];
+  }
+
+  /**
+   * Get adapter by dex type
+   */
+  getByDexType(dexType: string): DexSourceAdapter {
+    const adapter = this.adapters.find(a => a.dexType === dexType);
+    if (!adapter) {
+      throw new Error(`No DEX adapter registered for dex type "${dexType}". ${this.describe()}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Resolve the adapter for a source file - throws if none matches
+   */
+  resolve(fileName: string): DexSourceAdapter {
+    const adapter = this.adapters.find(a => a.matches(fileName));
+    if (!adapter) {
+      throw new Error(`No DEX adapter registered for file "${fileName}". ${this.describe()}`);
+    }
+    return adapter;
+  }
+
+  private describe(): string {
+    const registered = this.adapters
+      .map(a => `${a.dexType} (${a.filePrefixes.map(p => `${p}-*.json`).join(', ')})`)
+      .join(', ');
+    return `Registered adapters: ${registered}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { Pair, Token } from '../types';
+import { BaseDexAdapter } from './base-adapter';
+
+export interface BalancerPoolToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: string | number;
+  weight?: string;
+}
+
+export interface BalancerPoolRecord {
+  id: string; // bytes32 pool id
+  address: string;
+  poolType: string;
+  swapFee: string; // fraction, e.g. "0.003" = 0.30%
+  tokens: BalancerPoolToken[];
+  totalSwapVolume?: string;
+}
+
+/**
+ * Balancer V2 weighted pools (`data.pools`). Other pool types and pools with
+ * more than two tokens are skipped.
+ */
+export class BalancerWeightedAdapter extends BaseDexAdapter {
+  readonly dexType = 'balancerWeighted';
+  readonly filePrefixes = ['balancerWeighted', 'balancer'];
+  readonly collectionKey = 'pools' as const;
+
+  parseRecord(raw: BalancerPoolRecord): Pair | null {
+    if (raw.poolType !== 'Weighted' || !raw.tokens || raw.tokens.length !== 2) return null;
+
+    return {
+      id: raw.address,
+      feeTier: raw.swapFee,
+      token0: this.toToken(raw.tokens[0]),
+      token1: this.toToken(raw.tokens[1]),
+      volumeUSD: raw.totalSwapVolume
+    };
+  }
+
+  getFeeTier(pair: Pair): string {
+    if (!pair.feeTier) {
+      throw new Error(`Balancer pool ${pair.id} has no swapFee`);
+    }
+    return Math.round(parseFloat(pair.feeTier) * 1_000_000).toString();
+  }
+
+  private toToken(token: BalancerPoolToken): Token {
+    return {
+      id: token.address,
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals.toString()
+    };
+  }
+}
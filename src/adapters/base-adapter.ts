@@ -0,0 +1,55 @@
+import { DexCollectionKey, DexSourceAdapter, Pair } from '../types';
+
+/**
+ * Common behaviour shared by all DEX source adapters
+ */
+export abstract class BaseDexAdapter implements DexSourceAdapter {
+  abstract readonly dexType: string;
+  abstract readonly filePrefixes: readonly string[];
+  abstract readonly collectionKey: DexCollectionKey;
+
+  abstract parseRecord(raw: any): Pair | null;
+  abstract getFeeTier(pair: Pair): string;
+
+  /**
+   * Match on the filename prefix before the first "-" (e.g. "uniswapV3-10.json" → "uniswapV3")
+   */
+  matches(fileName: string): boolean {
+    const prefix = fileName.replace(/\.json$/i, '').split('-')[0].toLowerCase();
+    return this.filePrefixes.some(p => p.toLowerCase() === prefix);
+  }
+}
+
+/**
+ * Adapter for Uniswap V2 style payloads (`data.pairs` with a constant fee)
+ */
+export abstract class ConstantProductV2Adapter extends BaseDexAdapter {
+  readonly collectionKey = 'pairs' as const;
+  protected abstract readonly feeTier: string;
+
+  parseRecord(raw: any): Pair | null {
+    return raw as Pair;
+  }
+
+  getFeeTier(): string {
+    return this.feeTier;
+  }
+}
+
+/**
+ * Adapter for Uniswap V3 style payloads (`data.pools` with a per-pool feeTier)
+ */
+export abstract class ConcentratedLiquidityAdapter extends BaseDexAdapter {
+  readonly collectionKey = 'pools' as const;
+
+  parseRecord(raw: any): Pair | null {
+    return raw as Pair;
+  }
+
+  getFeeTier(pair: Pair): string {
+    if (!pair.feeTier) {
+      throw new Error(`Pool ${pair.id} (${this.dexType}) has no feeTier`);
+    }
+    return pair.feeTier;
+  }
+}
@@ -0,0 +1,40 @@
+import { Pair, Token } from '../types';
+import { BaseDexAdapter } from './base-adapter';
+
+export interface CurvePoolRecord {
+  id: string;
+  fee: string; // 1e10 precision, e.g. "4000000" = 0.04%
+  coins: Token[];
+  volumeUSD?: string;
+}
+
+/**
+ * Curve pools (`data.pools`). Only two-coin pools map onto tbl_dex_pool;
+ * multi-coin pools are skipped.
+ */
+export class CurveAdapter extends BaseDexAdapter {
+  readonly dexType = 'curve';
+  readonly filePrefixes = ['curve'];
+  readonly collectionKey = 'pools' as const;
+
+  private static readonly FEE_DENOMINATOR = 10_000n; // 1e10 → hundredths of a bip (1e6)
+
+  parseRecord(raw: CurvePoolRecord): Pair | null {
+    if (!raw.coins || raw.coins.length !== 2) return null;
+
+    return {
+      id: raw.id,
+      feeTier: raw.fee,
+      token0: raw.coins[0],
+      token1: raw.coins[1],
+      volumeUSD: raw.volumeUSD
+    };
+  }
+
+  getFeeTier(pair: Pair): string {
+    if (!pair.feeTier) {
+      throw new Error(`Curve pool ${pair.id} has no fee`);
+    }
+    return (BigInt(pair.feeTier) / CurveAdapter.FEE_DENOMINATOR).toString();
+  }
+}
@@ -0,0 +1,9 @@
+import { ConcentratedLiquidityAdapter } from './base-adapter';
+
+/**
+ * PancakeSwap V3 pools - fee tier per pool (100, 500, 2500, 10000)
+ */
+export class PancakeSwapV3Adapter extends ConcentratedLiquidityAdapter {
+  readonly dexType = 'pancakeswapV3';
+  readonly filePrefixes = ['pancakeswapV3', 'pancakeV3'];
+}
@@ -0,0 +1,10 @@
+import { ConstantProductV2Adapter } from './base-adapter';
+
+/**
+ * SushiSwap V2 pairs - flat 0.30% fee (0.25% LP + 0.05% xSUSHI)
+ */
+export class SushiSwapV2Adapter extends ConstantProductV2Adapter {
+  readonly dexType = 'sushiswapV2';
+  readonly filePrefixes = ['sushiswapV2', 'sushiswap'];
+  protected readonly feeTier = '3000';
+}
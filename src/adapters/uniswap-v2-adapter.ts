@@ -0,0 +1,10 @@
+import { ConstantProductV2Adapter } from './base-adapter';
+
+/**
+ * Uniswap V2 pairs - flat 0.30% fee
+ */
+export class UniswapV2Adapter extends ConstantProductV2Adapter {
+  readonly dexType = 'uniswapV2';
+  readonly filePrefixes = ['uniswapV2'];
+  protected readonly feeTier = '3000';
+}
@@ -0,0 +1,9 @@
+import { ConcentratedLiquidityAdapter } from './base-adapter';
+
+/**
+ * Uniswap V3 pools - fee tier per pool (100, 500, 3000, 10000)
+ */
+export class UniswapV3Adapter extends ConcentratedLiquidityAdapter {
+  readonly dexType = 'uniswapV3';
+  readonly filePrefixes = ['uniswapV3'];
+}
@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 
+import fs from 'fs';
 import { ArbitrageController } from './controllers/arbitrage-controller';
 import { LiquidityCleaner } from './services/liquidity-cleaner';
 import { DatabaseConnection } from './database/connection';
+import { DatabaseSchema } from './database/schema';
+import { QuarantineService } from './services/quarantine-service';
+import { DiscoveryOptions, PathDeletionPolicy } from './types';
+import { ConfigError, ConfigManager, getConfig } from './config/config-manager';
 
 /**
  * Command Line Interface for arbitrage operations
@@ -15,31 +20,66 @@ class CLI {
   }
 
   async run(): Promise<void> {
-    const args = process.argv.slice(2);
+    const rawArgs = process.argv.slice(2);
+    ConfigManager.getInstance().load(rawArgs);
+
+    const args = ConfigManager.stripConfigFlags(rawArgs);
     const command = args[0];
 
+    // Paths stream to stdout as NDJSON: progress messages move to stderr
+    if (getConfig().arbitrage.OUTPUTS.includes('stdout')) {
+      console.log = console.error;
+    }
+
     switch (command) {
       case 'load-data':
-        await this.loadData();
+        await this.loadData(args.includes('--incremental'));
         break;
       case 'find-paths':
-        await this.findPaths();
+        await this.findPaths({ resume: args.includes('--resume'), delta: args.includes('--delta') });
+        break;
+      case 'find-profitable':
+        await this.findProfitable();
+        break;
+      case 'quote-path':
+        await this.quotePath(args[1], args[2]);
+        break;
+      case 'optimize-path':
+        await this.optimizePath(args[1]);
+        break;
+      case 'evaluate-paths':
+        await this.evaluatePaths();
+        break;
+      case 'import-v3-snapshots':
+        await this.importV3Snapshots(args[1]);
         break;
       case 'full-pipeline':
         await this.runFullPipeline();
         break;
+      case 'snapshot-reserves':
+        await this.snapshotReserves();
+        break;
       case 'clean-liquidity':
-        await this.cleanLiquidity();
+        await this.cleanLiquidity(this.getPathPolicy(args));
         break;
       case 'clean-isolated':
-        await this.cleanIsolated();
+        await this.cleanIsolated(this.getPathPolicy(args));
         break;
       case 'clean-all':
-        await this.cleanAll();
+        await this.cleanAll(this.getPathPolicy(args));
         break;
       case 'check-token':
         await this.checkToken(args[1]);
         break;
+      case 'config':
+        this.config(args[1]);
+        break;
+      case 'migrate':
+        await this.migrate(args.includes('--status'));
+        break;
+      case 'quarantine':
+        await this.quarantine(args.slice(1));
+        break;
       case 'help':
       case '--help':
       case '-h':
@@ -51,46 +91,105 @@ class CLI {
     }
   }
 
-  private async loadData(): Promise<void> {
+  private async loadData(incremental: boolean): Promise<void> {
     console.log('🚀 Loading pool data from JSON files...');
-    await this.controller.loadPoolData();
+    await this.controller.loadPoolData({ mode: incremental ? 'incremental' : 'insert' });
   }
 
-  private async findPaths(): Promise<void> {
+  private async findPaths(options: DiscoveryOptions): Promise<void> {
     console.log('🚀 Finding arbitrage paths...');
-    const pathsFound = await this.controller.findArbitragePaths();
+    const pathsFound = await this.controller.findArbitragePaths(options);
     console.log(`✅ Operation completed. Found ${pathsFound} arbitrage paths.`);
   }
 
+  private async findProfitable(): Promise<void> {
+    console.log('🚀 Finding profitable cycles...');
+    const cycles = await this.controller.findProfitableCycles();
+    console.log(`✅ Operation completed. Found ${cycles.length} profitable cycles.`);
+  }
+
+  private async quotePath(pathId?: string, amount?: string): Promise<void> {
+    if (!pathId || !/^\d+$/.test(pathId) || !amount) {
+      console.log('❌ Please provide a path id and an input amount in anchor tokens.');
+      console.log('Usage: npm run cli quote-path <pathId> <amountIn>');
+      return;
+    }
+
+    await this.controller.quotePath(Number(pathId), amount);
+  }
+
+  private async optimizePath(pathId?: string): Promise<void> {
+    if (!pathId || !/^\d+$/.test(pathId)) {
+      console.log('❌ Please provide a path id.');
+      console.log('Usage: npm run cli optimize-path <pathId>');
+      return;
+    }
+
+    await this.controller.optimizePath(Number(pathId));
+  }
+
+  private async evaluatePaths(): Promise<void> {
+    console.log('🚀 Evaluating stored paths...');
+    const evaluations = await this.controller.evaluatePaths();
+    console.log(`✅ Operation completed. ${evaluations.length} path evaluations ranked.`);
+  }
+
+  private async importV3Snapshots(filePath?: string): Promise<void> {
+    if (!filePath) {
+      console.log('❌ Please provide a snapshot file.');
+      console.log('Usage: npm run cli import-v3-snapshots <snapshots.json>');
+      return;
+    }
+
+    console.log('📥 Importing V3 pool snapshots...');
+    await this.controller.importV3Snapshots(filePath);
+  }
+
   private async runFullPipeline(): Promise<void> {
     console.log('🚀 Running full arbitrage discovery pipeline...');
     await this.controller.execute();
   }
 
-  private async cleanLiquidity(): Promise<void> {
+  /**
+   * Stored paths using deleted pools are invalidated unless --cascade-paths is given
+   */
+  private getPathPolicy(args: string[]): PathDeletionPolicy {
+    return args.includes('--cascade-paths') ? 'cascade' : 'invalidate';
+  }
+
+  private async snapshotReserves(): Promise<void> {
+    console.log('📸 Recording current V2 pool reserves (nothing is deleted)...');
+    const dbConnection = DatabaseConnection.getInstance();
+    const db = await dbConnection.connect();
+    const cleaner = new LiquidityCleaner(db);
+    const recorded = await cleaner.snapshotReserves();
+    console.log(`✅ Recorded reserves of ${recorded} pools.`);
+  }
+
+  private async cleanLiquidity(pathPolicy: PathDeletionPolicy): Promise<void> {
     console.log('🧹 Cleaning low liquidity pools...');
     console.log('⚠️  WARNING: This will permanently delete pools from the database!');
     const dbConnection = DatabaseConnection.getInstance();
     const db = await dbConnection.connect();
-    const cleaner = new LiquidityCleaner(db);
+    const cleaner = new LiquidityCleaner(db, false, pathPolicy);
     await cleaner.cleanLowLiquidityPools();
   }
 
-  private async cleanIsolated(): Promise<void> {
+  private async cleanIsolated(pathPolicy: PathDeletionPolicy): Promise<void> {
     console.log('🏝️ Cleaning isolated pools (tokens that appear in only one pool)...');
     console.log('⚠️  WARNING: This will permanently delete pools from the database!');
     const dbConnection = DatabaseConnection.getInstance();
     const db = await dbConnection.connect();
-    const cleaner = new LiquidityCleaner(db);
+    const cleaner = new LiquidityCleaner(db, false, pathPolicy);
     await cleaner.cleanIsolatedPools();
   }
 
-  private async cleanAll(): Promise<void> {
+  private async cleanAll(pathPolicy: PathDeletionPolicy): Promise<void> {
     console.log('🧹 Comprehensive pool cleanup (isolated + low liquidity)...');
     console.log('⚠️  WARNING: This will permanently delete pools from the database!');
     const dbConnection = DatabaseConnection.getInstance();
     const db = await dbConnection.connect();
-    const cleaner = new LiquidityCleaner(db);
+    const cleaner = new LiquidityCleaner(db, false, pathPolicy);
     await cleaner.cleanAllPools();
   }
 
@@ -108,30 +207,160 @@ class CLI {
     await cleaner.checkTokenUsage(tokenAddress);
   }
 
+  private config(action?: string): void {
+    if (action !== 'show') {
+      console.log('❌ Unknown config action. Use: config show');
+      process.exit(1);
+    }
+
+    const entries = ConfigManager.getInstance().describe();
+    const keyWidth = Math.max(...entries.map(e => e.key.length));
+    const valueWidth = Math.max(...entries.map(e => String(e.value).length));
+
+    console.log('\n=== Effective Configuration ===');
+    entries.forEach(entry => {
+      const origin = entry.origin.detail ? `${entry.origin.source}: ${entry.origin.detail}` : entry.origin.source;
+      console.log(`  ${entry.key.padEnd(keyWidth)}  ${String(entry.value).padEnd(valueWidth)}  (${origin})`);
+    });
+  }
+
+  private async migrate(statusOnly: boolean): Promise<void> {
+    const dbConnection = DatabaseConnection.getInstance();
+    const db = await dbConnection.connect();
+    const schema = new DatabaseSchema(db);
+
+    if (!statusOnly) {
+      console.log('🗄️  Applying database migrations...');
+      const applied = await schema.migrate();
+      console.log(`✅ Applied ${applied} migration(s).`);
+    }
+
+    const status = await schema.getStatus();
+    console.log(`\n=== Schema Version ${await schema.getCurrentVersion()} ===`);
+    status.forEach(m => {
+      console.log(`  ${m.appliedAt ? '✅' : '⏳'} ${String(m.version).padStart(3, '0')} ${m.name}${m.appliedAt ? ` (applied ${m.appliedAt})` : ' (pending)'}`);
+    });
+  }
+
+  private async quarantine(args: string[]): Promise<void> {
+    const [action, ...rest] = args;
+    const dbConnection = DatabaseConnection.getInstance();
+    const db = await dbConnection.connect();
+    const quarantine = new QuarantineService(db);
+
+    switch (action) {
+      case 'list': {
+        const reasonIndex = rest.indexOf('--reason');
+        const reason = reasonIndex >= 0 ? rest[reasonIndex + 1] : undefined;
+        quarantine.logList(await quarantine.list(reason));
+        break;
+      }
+      case 'fix': {
+        const [id, file] = rest;
+        if (!id || !file) {
+          console.log('Usage: npm run cli quarantine fix <id> <fixed_record.json>');
+          return;
+        }
+        await quarantine.fix(Number(id), fs.readFileSync(file, 'utf-8'));
+        break;
+      }
+      case 'reimport':
+        console.log('♻️  Re-importing quarantined records...');
+        await quarantine.reimport(rest.map(Number).filter(id => Number.isInteger(id)));
+        break;
+      default:
+        console.log('❌ Unknown quarantine action. Use list, fix or reimport.');
+        process.exit(1);
+    }
+  }
+
   private showHelp(): void {
     console.log(`
 🔍 Arbitrage Discovery CLI
 
-Usage: npm run cli <command>
+Usage: npm run cli <command> [options]
 
 Commands:
   load-data       Load DEX pool data from JSON files into database
+                  --incremental  Upsert changed pools/tokens and mark pools missing from the snapshot as stale
   find-paths      Find arbitrage paths (requires data to be loaded first)
+                  --resume  Continue the last unfinished run, skipping first edges already explored
+                  --delta   Only cycles through pools loaded since the last completed run with the same settings
+  find-profitable Find loops through the anchor tokens that are profitable at the current V2 reserves
+  quote-path      Quote a stored path: quote-path <pathId> <amountIn in anchor tokens, e.g. 1.5>
+  optimize-path   Find the input size that maximizes a stored path's profit: optimize-path <pathId>
+  evaluate-paths  Quote every stored path at the latest recorded reserves, subtract gas and rank by net profit
+  import-v3-snapshots  Store V3 pool ticks for quoting: import-v3-snapshots <snapshots.json>
   full-pipeline   Run complete pipeline (load data + find paths)
+  snapshot-reserves  Record current V2 pool reserves with their block number, without deleting anything
   clean-liquidity Clean pools with low liquidity (BTC<0.3, ETH<5, Others<10000)
   clean-isolated  Clean isolated pools (tokens appearing in only one pool)
   clean-all       Comprehensive cleanup (isolated + low liquidity pools)
+                  clean-* --cascade-paths  Delete stored paths using removed pools (default: invalidate them)
   check-token     Check how many pools a specific token appears in
+  migrate         Apply pending database migrations
+                  --status  Only show applied and pending migrations
+  quarantine      Manage records rejected during load-data
+                  list [--reason CODE]   List pending quarantined records
+                  fix <id> <file>        Replace a record's raw JSON with a fixed version
+                  reimport [id ...]      Re-validate and import pending records
+  config show     Print the effective configuration and where each value came from
   help            Show this help message
 
+Configuration (defaults < dex-arb.config.json < profile < environment < flags):
+  --config <file>           Config file (env DEX_CONFIG, default ./dex-arb.config.json)
+  --profile <name>          Named profile from the config file (env DEX_PROFILE)
+  --chain <name|id>         ethereum, arbitrum, base or bsc (env DEX_CHAIN, default ethereum)
+  --rpc-url <url>           RPC endpoint for clean-liquidity (env DEX_RPC_URL)
+  --view-contract <address> Reserve view contract for clean-liquidity (env DEX_VIEW_CONTRACT)
+  --data-folder <dir>       JSON data folder (env DEX_DATA_FOLDER)
+  --db <file>               SQLite database path (env DEX_DATABASE_PATH)
+  --min-hops <n>            Shortest cycle in swaps, at least 2 (env DEX_MIN_HOPS)
+  --max-hops <n>            Longest cycle in swaps (env DEX_MAX_HOPS)
+  --workers <n>             Worker threads for cycle search (env DEX_WORKERS, default 1)
+  --collapse-parallel-pools One search edge per token pair, all its pools as step candidates (env DEX_COLLAPSE_PARALLEL_POOLS)
+  --anchor-tokens <list>    Comma-separated anchor token addresses or symbols (env DEX_ANCHOR_TOKENS, default chain's wrapped native)
+  --min-pool-volume-usd <n> Skip pools with lower known volume (env DEX_MIN_POOL_VOLUME_USD)
+  --output <list>           Path outputs: sqlite, stdout, ndjson:<file>, csv:<file> (env DEX_OUTPUT, default sqlite)
+  --from-snapshots          Price from the latest recorded reserves instead of the view contract (env DEX_RESERVES_FROM_SNAPSHOTS)
+  --sizes <list>            evaluate-paths input sizes in anchor tokens (env DEX_EVALUATION_SIZES, default 0.1,1,10)
+  --gas-price-gwei <n>      Gas price for evaluate-paths (env DEX_GAS_PRICE_GWEI, default 20)
+  --base-gas <n>            Gas per path besides its swaps (env DEX_BASE_GAS, default 50000)
+  --gas-per-hop <n>         Gas per swap (env DEX_GAS_PER_HOP, default 100000)
+  --gas-by-dex <list>       Per-swap gas by DEX type as dexType:gas (env DEX_GAS_BY_DEX, default V3 types 150000)
+  --evaluation-csv <file>   CSV written by evaluate-paths (env DEX_EVALUATION_CSV, default path_evaluation.csv)
+  --token-allowlist <list>  Only these tokens between anchors (env DEX_TOKEN_ALLOWLIST)
+  --token-denylist <list>   Drop pools of these tokens (env DEX_TOKEN_DENYLIST)
+  --include-dex <list>      Only pools of these DEX types (env DEX_INCLUDE_DEX_TYPES)
+  --exclude-dex <list>      Drop pools of these DEX types (env DEX_EXCLUDE_DEX_TYPES)
+  --max-edges-per-token <n> Keep the n highest-volume pools per intermediate token (env DEX_MAX_EDGES_PER_TOKEN)
+  --required-tokens <list>  Only cycles through one of these tokens (env DEX_REQUIRED_TOKENS)
+  --paths-batch-size <n>    Paths per flush (env DEX_PATHS_BATCH_SIZE)
+  --steps-batch-size <n>    Steps per flush (env DEX_STEPS_BATCH_SIZE)
+  --flush-interval-ms <n>   Periodic flush interval (env DEX_FLUSH_INTERVAL_MS)
+  --load-batch-size <n>     Pairs per multi-row insert while loading, at most 1638 (env DEX_LOAD_BATCH_SIZE)
+
 Examples:
   npm run cli load-data        # Load pool data
+  npm run cli load-data -- --incremental  # Re-load and report added/updated/removed pools
+  npm run cli load-data -- --chain arbitrum  # Load Arbitrum pools (data folder may use {chain})
   npm run cli find-paths       # Find arbitrage paths
+  npm run cli find-paths -- --anchor-tokens WETH,USDC,DAI  # Cycles for several flash-loan assets
+  npm run cli find-paths -- --min-hops 2 --max-hops 5      # 2- to 5-hop cycles
+  npm run cli find-paths -- --resume                       # Continue an interrupted discovery run
+  npm run cli find-paths -- --delta                        # Add the cycles of newly loaded pools
   npm run cli full-pipeline   # Run everything
+  npm run cli snapshot-reserves  # Record reserves for later quoting
+  npm run cli optimize-path -- 42 --from-snapshots  # Size a path at the last recorded reserves
+  npm run cli evaluate-paths -- --sizes 0.5,5 --gas-price-gwei 8  # Rank paths by net profit after gas
   npm run cli clean-liquidity  # Clean low liquidity pools only
   npm run cli clean-isolated   # Clean isolated pools only
   npm run cli clean-all        # Clean both isolated and low liquidity pools
   npm run cli check-token 0x269616d549d7e8eaa82dfb17028d0b212d11232a  # Check specific token usage
+  npm run cli config show -- --profile deep      # Inspect effective settings
+  npm run cli migrate -- --status  # Show schema version and pending migrations
+  npm run cli quarantine list --reason INVALID_DECIMALS  # Show rejected records
+  npm run cli quarantine reimport 12 13                  # Re-import fixed records
 
 ⚠️  WARNING: Pool deletion is now ENABLED. These commands will permanently remove pools from the database.
     `);
@@ -141,6 +370,10 @@ Examples:
 // Run CLI
 const cli = new CLI();
 cli.run().catch(error => {
-  console.error('❌ CLI error:', error);
+  if (error instanceof ConfigError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error('❌ CLI error:', error);
+  }
   process.exit(1);
 });
\ No newline at end of file
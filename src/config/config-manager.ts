@@ -0,0 +1,456 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig, ConfigValueOrigin } from '../types';
+import { DexAdapterRegistry } from '../adapters/adapter-registry';
+import { ARBITRAGE_CONFIG, BATCH_CONFIG, CHAINS, DATA_CONFIG, DEFAULT_CHAIN, EVALUATION_CONFIG, MAX_LOAD_BATCH_SIZE, PRUNING_CONFIG } from './constants';
+
+type SettingType =
+  'string' | 'integer' | 'number' | 'boolean' | 'address' | 'chain' | 'tokenList' | 'dexList' | 'outputList' | 'amountList' | 'dexGasList';
+type SettingValue = string | number | boolean | string[];
+
+interface SettingDefinition {
+  /** Key in the config file and in profiles */
+  key: string;
+  section: keyof AppConfig;
+  field: string;
+  type: SettingType;
+  env: string;
+  flag: string;
+  min?: number;
+  max?: number;
+  /** Empty value allowed */
+  optional?: boolean;
+}
+
+/**
+ * Every overridable setting: config file key, environment variable and CLI flag
+ */
+const SETTINGS: SettingDefinition[] = [
+  // Resolved first: chain-specific defaults (anchor token, RPC, view contract) depend on it
+  { key: 'chain', section: 'chain', field: 'NAME', type: 'chain', env: 'DEX_CHAIN', flag: '--chain' },
+  { key: 'rpcUrl', section: 'chain', field: 'RPC_URL', type: 'string', env: 'DEX_RPC_URL', flag: '--rpc-url' },
+  { key: 'viewContract', section: 'chain', field: 'VIEW_CONTRACT', type: 'address', env: 'DEX_VIEW_CONTRACT', flag: '--view-contract', optional: true },
+  { key: 'dataFolder', section: 'data', field: 'JSON_FOLDER', type: 'string', env: 'DEX_DATA_FOLDER', flag: '--data-folder' },
+  { key: 'databasePath', section: 'data', field: 'DATABASE_PATH', type: 'string', env: 'DEX_DATABASE_PATH', flag: '--db' },
+  { key: 'minHops', section: 'arbitrage', field: 'MIN_HOPS', type: 'integer', env: 'DEX_MIN_HOPS', flag: '--min-hops', min: 2 },
+  { key: 'maxHops', section: 'arbitrage', field: 'MAX_HOPS', type: 'integer', env: 'DEX_MAX_HOPS', flag: '--max-hops', min: 2 },
+  { key: 'anchorTokens', section: 'arbitrage', field: 'ANCHOR_TOKENS', type: 'tokenList', env: 'DEX_ANCHOR_TOKENS', flag: '--anchor-tokens' },
+  { key: 'workers', section: 'arbitrage', field: 'WORKERS', type: 'integer', env: 'DEX_WORKERS', flag: '--workers', min: 1 },
+  { key: 'collapseParallelPools', section: 'arbitrage', field: 'COLLAPSE_PARALLEL_POOLS', type: 'boolean', env: 'DEX_COLLAPSE_PARALLEL_POOLS', flag: '--collapse-parallel-pools' },
+  { key: 'minPoolVolumeUsd', section: 'arbitrage', field: 'MIN_POOL_VOLUME_USD', type: 'number', env: 'DEX_MIN_POOL_VOLUME_USD', flag: '--min-pool-volume-usd', min: 0 },
+  { key: 'output', section: 'arbitrage', field: 'OUTPUTS', type: 'outputList', env: 'DEX_OUTPUT', flag: '--output' },
+  { key: 'reservesFromSnapshots', section: 'arbitrage', field: 'RESERVES_FROM_SNAPSHOTS', type: 'boolean', env: 'DEX_RESERVES_FROM_SNAPSHOTS', flag: '--from-snapshots' },
+  { key: 'tokenAllowlist', section: 'pruning', field: 'TOKEN_ALLOWLIST', type: 'tokenList', env: 'DEX_TOKEN_ALLOWLIST', flag: '--token-allowlist', optional: true },
+  { key: 'tokenDenylist', section: 'pruning', field: 'TOKEN_DENYLIST', type: 'tokenList', env: 'DEX_TOKEN_DENYLIST', flag: '--token-denylist', optional: true },
+  { key: 'includeDexTypes', section: 'pruning', field: 'INCLUDE_DEX_TYPES', type: 'dexList', env: 'DEX_INCLUDE_DEX_TYPES', flag: '--include-dex', optional: true },
+  { key: 'excludeDexTypes', section: 'pruning', field: 'EXCLUDE_DEX_TYPES', type: 'dexList', env: 'DEX_EXCLUDE_DEX_TYPES', flag: '--exclude-dex', optional: true },
+  { key: 'maxEdgesPerToken', section: 'pruning', field: 'MAX_EDGES_PER_TOKEN', type: 'integer', env: 'DEX_MAX_EDGES_PER_TOKEN', flag: '--max-edges-per-token', min: 0 },
+  { key: 'requiredTokens', section: 'pruning', field: 'REQUIRED_TOKENS', type: 'tokenList', env: 'DEX_REQUIRED_TOKENS', flag: '--required-tokens', optional: true },
+  { key: 'pathsBatchSize', section: 'batch', field: 'PATHS_BATCH_SIZE', type: 'integer', env: 'DEX_PATHS_BATCH_SIZE', flag: '--paths-batch-size', min: 1 },
+  { key: 'stepsBatchSize', section: 'batch', field: 'STEPS_BATCH_SIZE', type: 'integer', env: 'DEX_STEPS_BATCH_SIZE', flag: '--steps-batch-size', min: 1 },
+  { key: 'flushIntervalMs', section: 'batch', field: 'FLUSH_INTERVAL_MS', type: 'integer', env: 'DEX_FLUSH_INTERVAL_MS', flag: '--flush-interval-ms', min: 1 },
+  { key: 'loadBatchSize', section: 'batch', field: 'LOAD_BATCH_SIZE', type: 'integer', env: 'DEX_LOAD_BATCH_SIZE', flag: '--load-batch-size', min: 1, max: MAX_LOAD_BATCH_SIZE },
+  { key: 'evaluationSizes', section: 'evaluation', field: 'INPUT_SIZES', type: 'amountList', env: 'DEX_EVALUATION_SIZES', flag: '--sizes' },
+  { key: 'gasPriceGwei', section: 'evaluation', field: 'GAS_PRICE_GWEI', type: 'number', env: 'DEX_GAS_PRICE_GWEI', flag: '--gas-price-gwei', min: 0 },
+  { key: 'baseGas', section: 'evaluation', field: 'BASE_GAS', type: 'integer', env: 'DEX_BASE_GAS', flag: '--base-gas', min: 0 },
+  { key: 'gasPerHop', section: 'evaluation', field: 'GAS_PER_HOP', type: 'integer', env: 'DEX_GAS_PER_HOP', flag: '--gas-per-hop', min: 0 },
+  { key: 'gasByDex', section: 'evaluation', field: 'GAS_BY_DEX', type: 'dexGasList', env: 'DEX_GAS_BY_DEX', flag: '--gas-by-dex', optional: true },
+  { key: 'evaluationCsv', section: 'evaluation', field: 'CSV_FILE', type: 'string', env: 'DEX_EVALUATION_CSV', flag: '--evaluation-csv' }
+];
+
+const LIST_ITEM_NAMES: Partial<Record<SettingType, string>> = {
+  tokenList: 'token address or symbol',
+  dexList: 'DEX type',
+  outputList: 'output',
+  amountList: 'amount',
+  dexGasList: 'DEX gas entry'
+};
+
+const BOOLEAN_FLAGS = new Set(SETTINGS.filter(s => s.type === 'boolean').map(s => s.flag));
+
+const DEFAULT_CONFIG_FILE = 'dex-arb.config.json';
+const CONFIG_FLAG = '--config';
+const PROFILE_FLAG = '--profile';
+const CONFIG_ENV = 'DEX_CONFIG';
+const PROFILE_ENV = 'DEX_PROFILE';
+
+/**
+ * Thrown when the effective configuration is invalid; lists every problem found
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigEntry {
+  key: string;
+  value: SettingValue;
+  origin: ConfigValueOrigin;
+}
+
+/**
+ * Resolves the effective configuration: defaults < config file < profile < environment < CLI flags
+ */
+export class ConfigManager {
+  private static instance: ConfigManager;
+  private config: AppConfig | null = null;
+  private entries: ConfigEntry[] = [];
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern for the effective configuration
+   */
+  static getInstance(): ConfigManager {
+    if (!ConfigManager.instance) {
+      ConfigManager.instance = new ConfigManager();
+    }
+    return ConfigManager.instance;
+  }
+
+  /**
+   * Remove configuration flags (and their values) from CLI arguments
+   */
+  static stripConfigFlags(args: string[]): string[] {
+    const valueFlags = new Set([CONFIG_FLAG, PROFILE_FLAG, ...SETTINGS.map(s => s.flag)]);
+    const rest: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const [flag] = args[i].split('=');
+      if (valueFlags.has(flag)) {
+        if (!args[i].includes('=') && !BOOLEAN_FLAGS.has(flag)) i++;
+        continue;
+      }
+      rest.push(args[i]);
+    }
+
+    return rest;
+  }
+
+  /**
+   * Resolve and validate configuration from CLI arguments and environment
+   */
+  load(args: string[] = [], env: NodeJS.ProcessEnv = process.env): AppConfig {
+    const flags = this.parseFlags(args);
+    const problems: string[] = [];
+
+    const configPath = flags.get(CONFIG_FLAG) ?? env[CONFIG_ENV];
+    const file = this.readConfigFile(configPath, problems);
+
+    const profileName = flags.get(PROFILE_FLAG) ?? env[PROFILE_ENV];
+    const profile = this.selectProfile(file.values, profileName, file.path, problems);
+
+    if (file.values) {
+      this.checkUnknownKeys(file.values, `config file ${file.path}`, ['profiles'], problems);
+    }
+    if (profile) {
+      this.checkUnknownKeys(profile, `profile "${profileName}"`, [], problems);
+    }
+
+    const sections: Record<keyof AppConfig, Record<string, unknown>> = {
+      chain: { ...CHAINS[DEFAULT_CHAIN] },
+      data: { ...DATA_CONFIG },
+      arbitrage: { ...ARBITRAGE_CONFIG },
+      pruning: { ...PRUNING_CONFIG },
+      batch: { ...BATCH_CONFIG },
+      evaluation: { ...EVALUATION_CONFIG }
+    };
+    const entries: ConfigEntry[] = [];
+
+    for (const setting of SETTINGS) {
+      let raw: unknown = sections[setting.section][setting.field];
+      let origin: ConfigValueOrigin = { source: 'default' };
+
+      if (file.values && setting.key in file.values) {
+        raw = file.values[setting.key];
+        origin = { source: 'file', detail: file.path };
+      }
+      if (profile && setting.key in profile) {
+        raw = profile[setting.key];
+        origin = { source: 'profile', detail: profileName };
+      }
+      if (env[setting.env] !== undefined && env[setting.env] !== '') {
+        raw = env[setting.env];
+        origin = { source: 'env', detail: setting.env };
+      }
+      if (flags.has(setting.flag)) {
+        raw = flags.get(setting.flag);
+        origin = { source: 'cli', detail: setting.flag };
+      }
+
+      const value = this.coerce(setting, raw, origin, problems);
+      if (value === undefined) continue;
+
+      if (setting.type === 'chain') {
+        const chain = CHAINS[value as string];
+        sections.chain = { ...chain };
+        sections.arbitrage.ANCHOR_TOKENS = [chain.WRAPPED_NATIVE];
+      } else {
+        sections[setting.section][setting.field] = value;
+      }
+      entries.push({ key: setting.key, value, origin });
+    }
+
+    sections.data.JSON_FOLDER = String(sections.data.JSON_FOLDER).replace('{chain}', String(sections.chain.NAME));
+
+    if (Number(sections.arbitrage.MIN_HOPS) > Number(sections.arbitrage.MAX_HOPS)) {
+      problems.push(`minHops (${sections.arbitrage.MIN_HOPS}) must not be greater than maxHops (${sections.arbitrage.MAX_HOPS})`);
+    }
+
+    if (problems.length > 0) {
+      throw new ConfigError(problems);
+    }
+
+    this.config = sections as unknown as AppConfig;
+    this.entries = entries;
+    return this.config;
+  }
+
+  /**
+   * Effective configuration (resolved from the environment on first use if load() was not called)
+   */
+  get(): AppConfig {
+    return this.config ?? this.load();
+  }
+
+  /**
+   * Effective values with where each one came from
+   */
+  describe(): ConfigEntry[] {
+    this.get();
+    return [...this.entries];
+  }
+
+  private parseFlags(args: string[]): Map<string, string> {
+    const known = new Set([CONFIG_FLAG, PROFILE_FLAG, ...SETTINGS.map(s => s.flag)]);
+    const flags = new Map<string, string>();
+
+    for (let i = 0; i < args.length; i++) {
+      const [flag, inlineValue] = args[i].split(/=(.*)/s);
+      if (!known.has(flag)) continue;
+
+      // Boolean flags are switches: "--flag" means true, "--flag=false" turns them off
+      if (BOOLEAN_FLAGS.has(flag)) {
+        flags.set(flag, inlineValue ?? 'true');
+        continue;
+      }
+
+      const value = inlineValue ?? args[i + 1];
+      if (inlineValue === undefined) i++;
+      if (value === undefined) {
+        throw new ConfigError([`${flag} requires a value`]);
+      }
+      flags.set(flag, value);
+    }
+
+    return flags;
+  }
+
+  private readConfigFile(
+    explicitPath: string | undefined,
+    problems: string[]
+  ): { path?: string, values?: Record<string, unknown> } {
+    const filePath = path.resolve(explicitPath ?? DEFAULT_CONFIG_FILE);
+
+    if (!fs.existsSync(filePath)) {
+      if (explicitPath) problems.push(`config file not found: ${filePath}`);
+      return {};
+    }
+
+    try {
+      const values = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        problems.push(`config file ${filePath} must contain a JSON object`);
+        return { path: filePath };
+      }
+      return { path: filePath, values };
+    } catch (error) {
+      problems.push(`config file ${filePath} is not valid JSON: ${(error as Error).message}`);
+      return { path: filePath };
+    }
+  }
+
+  private selectProfile(
+    fileValues: Record<string, unknown> | undefined,
+    profileName: string | undefined,
+    filePath: string | undefined,
+    problems: string[]
+  ): Record<string, unknown> | undefined {
+    if (!profileName) return undefined;
+
+    const profiles = (fileValues?.profiles ?? {}) as Record<string, Record<string, unknown>>;
+    if (!profiles[profileName]) {
+      const available = Object.keys(profiles);
+      problems.push(
+        `profile "${profileName}" is not defined in ${filePath ?? 'any config file'}` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+      );
+      return undefined;
+    }
+    return profiles[profileName];
+  }
+
+  private checkUnknownKeys(values: Record<string, unknown>, where: string, allowed: string[], problems: string[]): void {
+    const known = new Set([...SETTINGS.map(s => s.key), ...allowed]);
+    Object.keys(values)
+      .filter(key => !known.has(key))
+      .forEach(key => problems.push(`unknown setting "${key}" in ${where}`));
+  }
+
+  private coerce(
+    setting: SettingDefinition,
+    raw: unknown,
+    origin: ConfigValueOrigin,
+    problems: string[]
+  ): SettingValue | undefined {
+    const where = `${setting.key} (from ${origin.source}${origin.detail ? ` ${origin.detail}` : ''})`;
+
+    const isList = LIST_ITEM_NAMES[setting.type] !== undefined;
+
+    if (setting.optional && (raw === '' || raw === undefined || raw === null)) {
+      return isList ? [] : '';
+    }
+
+    if (isList) {
+      // JSON array in config files, comma-separated in environment and flags
+      const items = (Array.isArray(raw) ? raw.map(String) : String(raw).split(','))
+        .map(item => item.trim())
+        .filter(item => item !== '');
+      if (items.length === 0) {
+        if (setting.optional) return [];
+        problems.push(`${where} must list at least one ${LIST_ITEM_NAMES[setting.type]}`);
+        return undefined;
+      }
+      switch (setting.type) {
+        case 'outputList': return this.coerceOutputs(items, where, problems);
+        case 'amountList': return this.coerceAmounts(items, where, problems);
+        case 'dexGasList': return this.coerceDexGas(items, where, problems);
+        case 'dexList': return this.coerceDexTypes(items, where, problems);
+        default: return this.coerceTokens(items, where, problems);
+      }
+    }
+
+    if (setting.type === 'boolean') {
+      if (typeof raw === 'boolean') return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(text)) return true;
+      if (['false', '0', 'no'].includes(text)) return false;
+      problems.push(`${where} must be true or false, got "${raw}"`);
+      return undefined;
+    }
+
+    if (setting.type === 'chain') {
+      const selector = String(raw).trim().toLowerCase();
+      const chain = Object.values(CHAINS).find(c => c.NAME === selector || String(c.CHAIN_ID) === selector);
+      if (!chain) {
+        const available = Object.values(CHAINS).map(c => `${c.NAME} (${c.CHAIN_ID})`).join(', ');
+        problems.push(`${where} must be one of ${available}, got "${raw}"`);
+        return undefined;
+      }
+      return chain.NAME;
+    }
+
+    if (setting.type === 'string' || setting.type === 'address') {
+      if (typeof raw !== 'string' || raw.trim() === '') {
+        problems.push(`${where} must be a non-empty string`);
+        return undefined;
+      }
+      if (setting.type === 'address') {
+        const address = raw.trim().toLowerCase();
+        if (!/^0x[0-9a-f]{40}$/.test(address)) {
+          problems.push(`${where} must be a 20-byte hex address, got "${raw}"`);
+          return undefined;
+        }
+        return address;
+      }
+      return raw.trim();
+    }
+
+    const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+    if (!Number.isFinite(value) || (setting.type === 'integer' && !Number.isInteger(value))) {
+      problems.push(`${where} must be ${setting.type === 'integer' ? 'an integer' : 'a number'}, got "${raw}"`);
+      return undefined;
+    }
+    if (setting.min !== undefined && value < setting.min) {
+      problems.push(`${where} must be at least ${setting.min}, got ${value}`);
+      return undefined;
+    }
+    if (setting.max !== undefined && value > setting.max) {
+      problems.push(`${where} must be at most ${setting.max}, got ${value}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  private coerceTokens(tokens: string[], where: string, problems: string[]): string[] | undefined {
+    const invalid = tokens.filter(token => token.startsWith('0x') && !/^0x[0-9a-fA-F]{40}$/.test(token));
+    if (invalid.length > 0) {
+      problems.push(`${where} contains invalid addresses: ${invalid.join(', ')}`);
+      return undefined;
+    }
+    // Addresses are lowercased, anything else is a symbol resolved against the loaded tokens
+    return tokens.map(token => token.startsWith('0x') ? token.toLowerCase() : token);
+  }
+
+  private coerceDexTypes(dexTypes: string[], where: string, problems: string[]): string[] | undefined {
+    const known = DexAdapterRegistry.createDefault().list().map(adapter => adapter.dexType);
+    const unknown = dexTypes.filter(dexType => !known.includes(dexType));
+    if (unknown.length > 0) {
+      problems.push(`${where} contains unknown DEX types: ${unknown.join(', ')} (known: ${known.join(', ')})`);
+      return undefined;
+    }
+    return dexTypes;
+  }
+
+  private coerceOutputs(outputs: string[], where: string, problems: string[]): string[] | undefined {
+    const invalid = outputs.filter(output => {
+      const [type, target] = output.split(/:(.*)/s);
+      if (type === 'sqlite' || type === 'stdout') return target !== undefined;
+      return (type !== 'ndjson' && type !== 'csv') || !target;
+    });
+    if (invalid.length > 0) {
+      problems.push(`${where} contains invalid outputs: ${invalid.join(', ')} (use sqlite, stdout, ndjson:<file> or csv:<file>)`);
+      return undefined;
+    }
+    if (new Set(outputs).size < outputs.length) {
+      problems.push(`${where} lists an output more than once`);
+      return undefined;
+    }
+    return outputs;
+  }
+
+  private coerceAmounts(amounts: string[], where: string, problems: string[]): string[] | undefined {
+    const invalid = amounts.filter(amount => !/^\d+(\.\d+)?$/.test(amount) || Number(amount) === 0);
+    if (invalid.length > 0) {
+      problems.push(`${where} contains invalid amounts: ${invalid.join(', ')} (use positive decimals such as 0.5)`);
+      return undefined;
+    }
+    return amounts;
+  }
+
+  private coerceDexGas(entries: string[], where: string, problems: string[]): string[] | undefined {
+    const known = DexAdapterRegistry.createDefault().list().map(adapter => adapter.dexType);
+    const invalid = entries.filter(entry => {
+      const [dexType, gas] = entry.split(':');
+      return !known.includes(dexType) || !/^\d+$/.test(gas ?? '');
+    });
+    if (invalid.length > 0) {
+      problems.push(`${where} contains invalid entries: ${invalid.join(', ')} (use <dexType>:<gas>, DEX types: ${known.join(', ')})`);
+      return undefined;
+    }
+    if (new Set(entries.map(entry => entry.split(':')[0])).size < entries.length) {
+      problems.push(`${where} lists a DEX type more than once`);
+      return undefined;
+    }
+    return entries;
+  }
+}
+
+/**
+ * Shortcut for the effective configuration
+ */
+export function getConfig(): AppConfig {
+  return ConfigManager.getInstance().get();
+}
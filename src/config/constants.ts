@@ -1,36 +1,113 @@
 import { config } from 'dotenv';
-import { BatchConfig, ArbitrageConfig } from '../types';
+import { BatchConfig, ArbitrageConfig, ChainConfig, DataConfig, EvaluationConfig, PruningConfig } from '../types';
 
 // Load environment variables
 config();
 
+// Defaults below can be overridden by the config file, environment or CLI flags (see config-manager.ts)
+
 // Batch processing configuration
 export const BATCH_CONFIG: BatchConfig = {
   PATHS_BATCH_SIZE: 1000,      // Insert paths in batches of 1000
   STEPS_BATCH_SIZE: 5000,      // Insert steps in batches of 5000
-  FLUSH_INTERVAL_MS: 1000      // Flush every 1 second
+  FLUSH_INTERVAL_MS: 1000,     // Flush every 1 second
+  LOAD_BATCH_SIZE: 500         // Pairs per multi-row insert while loading pool data
 } as const;
 
+// SQLite's limit on bound variables per statement (SQLITE_MAX_VARIABLE_NUMBER of the bundled build)
+export const SQLITE_MAX_VARIABLES = 32766;
+// Columns bound per row by load-data's multi-row inserts: each pair writes one pool row and two token rows
+export const LOAD_POOL_COLUMNS = 12;
+export const LOAD_TOKEN_COLUMNS = 10;
+// Largest LOAD_BATCH_SIZE whose token and pool statements stay within SQLITE_MAX_VARIABLES
+export const MAX_LOAD_BATCH_SIZE = Math.floor(SQLITE_MAX_VARIABLES / Math.max(LOAD_POOL_COLUMNS, 2 * LOAD_TOKEN_COLUMNS));
+
 // Arbitrage discovery configuration
 export const ARBITRAGE_CONFIG: ArbitrageConfig = {
-  MAX_DEPTH: 4,
-  MIN_DEPTH: 4,
-  WETH_ADDRESS: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2".toLowerCase()
+  MAX_HOPS: 4,                 // Longest cycle (swaps) to emit
+  MIN_HOPS: 4,                 // Shortest cycle to emit (2 = cross-DEX round trip)
+  COLLAPSE_PARALLEL_POOLS: false, // Group pools between the same two tokens into one search edge
+  WORKERS: 1,                  // Worker threads for cycle search, partitioned by the anchor's first edge
+  ANCHOR_TOKENS: ["0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2"], // Defaults to the selected chain's wrapped native token
+  MIN_POOL_VOLUME_USD: 0,      // Ignore pools with a known volume below this (0 = keep all)
+  OUTPUTS: ["sqlite"],         // Where find-paths writes paths: sqlite, stdout, ndjson:<file>, csv:<file>
+  RESERVES_FROM_SNAPSHOTS: false // Quote and price from tbl_dex_reserve_snapshot instead of the view contract
+} as const;
+
+// Constant-product pools priced from their two reserves (the liquidity cleaner checks the same types)
+export const CONSTANT_PRODUCT_DEX_TYPES: readonly string[] = ['uniswapV2', 'sushiswapV2'];
+// Concentrated-liquidity pools simulated tick by tick from stored snapshots (import-v3-snapshots)
+export const CONCENTRATED_LIQUIDITY_DEX_TYPES: readonly string[] = ['uniswapV3', 'pancakeswapV3'];
+// Fee tier assumed for pools stored without one (hundredths of a bip: the V2 0.30%)
+export const DEFAULT_FEE_TIER = 3000;
+
+// Discovery graph pruning (all rules off by default)
+export const PRUNING_CONFIG: PruningConfig = {
+  TOKEN_ALLOWLIST: [],
+  TOKEN_DENYLIST: [],
+  INCLUDE_DEX_TYPES: [],
+  EXCLUDE_DEX_TYPES: [],
+  MAX_EDGES_PER_TOKEN: 0,      // Keep the N highest-volume pools of each intermediate token
+  REQUIRED_TOKENS: []
 } as const;
 
-// Data source configuration
-export const DATA_CONFIG = {
+// Path evaluation: quoted input sizes and gas cost model (gas is priced in each path's anchor token)
+export const EVALUATION_CONFIG: EvaluationConfig = {
+  INPUT_SIZES: ["0.1", "1", "10"], // Whole anchor tokens
+  GAS_PRICE_GWEI: 20,
+  BASE_GAS: 50000,             // Transaction base cost and executor overhead
+  GAS_PER_HOP: 100000,         // Gas per swap unless GAS_BY_DEX lists the DEX type
+  GAS_BY_DEX: ["uniswapV3:150000", "pancakeswapV3:150000"],
+  CSV_FILE: 'path_evaluation.csv'
+} as const;
+
+// Supported chains - wrapped native token is the default anchor, RPC/view contract feed the liquidity cleaner
+export const CHAINS: Record<string, ChainConfig> = {
+  ethereum: {
+    NAME: 'ethereum',
+    CHAIN_ID: 1,
+    WRAPPED_NATIVE: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    WRAPPED_NATIVE_SYMBOL: 'WETH',
+    RPC_URL: 'https://mainnet.infura.io/v3/{INFURA_API_KEY}',
+    VIEW_CONTRACT: '0x416355755f32b2710ce38725ed0fa102ce7d07e6'
+  },
+  arbitrum: {
+    NAME: 'arbitrum',
+    CHAIN_ID: 42161,
+    WRAPPED_NATIVE: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+    WRAPPED_NATIVE_SYMBOL: 'WETH',
+    RPC_URL: 'https://arbitrum-mainnet.infura.io/v3/{INFURA_API_KEY}',
+    VIEW_CONTRACT: ''
+  },
+  base: {
+    NAME: 'base',
+    CHAIN_ID: 8453,
+    WRAPPED_NATIVE: '0x4200000000000000000000000000000000000006',
+    WRAPPED_NATIVE_SYMBOL: 'WETH',
+    RPC_URL: 'https://base-mainnet.infura.io/v3/{INFURA_API_KEY}',
+    VIEW_CONTRACT: ''
+  },
+  bsc: {
+    NAME: 'bsc',
+    CHAIN_ID: 56,
+    WRAPPED_NATIVE: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c',
+    WRAPPED_NATIVE_SYMBOL: 'WBNB',
+    RPC_URL: 'https://bsc-mainnet.infura.io/v3/{INFURA_API_KEY}',
+    VIEW_CONTRACT: ''
+  }
+};
+
+export const DEFAULT_CHAIN = 'ethereum';
+
+// Data source configuration ("{chain}" in JSON_FOLDER is replaced with the selected chain name)
+export const DATA_CONFIG: DataConfig = {
   JSON_FOLDER: "/Volumes/Resource/Project/Git/arbitrageCheck/00_PreData/DexPoolData",
   DATABASE_PATH: "dex_pools.db"
 } as const;
 
-// Environment variables
+// Environment variables (required only by RPC URLs that reference {INFURA_API_KEY})
 export const INFURA_API_KEY = process.env.INFURA_API_KEY || '';
 
-if (!INFURA_API_KEY) {
-  throw new Error('INFURA_API_KEY is required in environment variables');
-}
-
 export const UNISWAP_VIEW_ABI = [
   {
     "inputs": [
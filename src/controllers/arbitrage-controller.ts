@@ -1,7 +1,17 @@
+import { Database } from 'sqlite';
 import { DatabaseConnection } from '../database/connection';
 import { DatabaseSchema } from '../database/schema';
 import { DataLoaderService } from '../services/data-loader';
 import { ArbitrageFinderService } from '../services/arbitrage-finder';
+import { ProfitableCycleFinder } from '../services/profitable-cycle-finder';
+import { PathQuoter } from '../services/path-quoter';
+import { PathOptimizer } from '../services/path-optimizer';
+import { PathEvaluator } from '../services/path-evaluator';
+import { V3SnapshotService } from '../services/v3-snapshot-service';
+import { ViewContractReserveSource } from '../reserves/view-contract-reserve-source';
+import { SnapshotReserveSource } from '../reserves/snapshot-reserve-source';
+import { DiscoveryOptions, LoadOptions, PathEvaluation, PathOptimum, PathQuote, ProfitableCycle, ReserveSource } from '../types';
+import { getConfig } from '../config/config-manager';
 
 /**
  * Main controller orchestrating the arbitrage discovery process
@@ -54,7 +64,7 @@ export class ArbitrageController {
   /**
    * Load pool data only (separate operation)
    */
-  async loadPoolData(): Promise<void> {
+  async loadPoolData(options: LoadOptions = { mode: 'insert' }): Promise<void> {
     console.log('📂 Loading pool data...');
 
     try {
@@ -63,7 +73,7 @@ export class ArbitrageController {
       await schema.initializeTables();
 
       const dataLoader = new DataLoaderService(db);
-      await dataLoader.loadAllPoolData();
+      await dataLoader.loadAllPoolData(options);
 
       console.log('✅ Pool data loading completed');
     } catch (error) {
@@ -77,13 +87,13 @@ export class ArbitrageController {
   /**
    * Find arbitrage paths only (assumes data is already loaded)
    */
-  async findArbitragePaths(): Promise<number> {
+  async findArbitragePaths(options: DiscoveryOptions = { resume: false, delta: false }): Promise<number> {
     console.log('🔍 Finding arbitrage paths...');
 
     try {
       const db = await this.dbConnection.connect();
       
-      const arbitrageFinder = new ArbitrageFinderService(db);
+      const arbitrageFinder = new ArbitrageFinderService(db, options);
       const pathsFound = await arbitrageFinder.findArbitragePaths();
 
       console.log(`✅ Arbitrage path discovery completed: ${pathsFound} paths found`);
@@ -95,4 +105,98 @@ export class ArbitrageController {
       await this.dbConnection.close();
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Find profitable loops through the anchor tokens at the current pool reserves
+   */
+  async findProfitableCycles(): Promise<ProfitableCycle[]> {
+    try {
+      const db = await this.dbConnection.connect();
+
+      const finder = new ProfitableCycleFinder(db, this.reserveSource(db));
+      return await finder.findProfitableCycles();
+    } catch (error) {
+      console.error('❌ Error finding profitable cycles:', error);
+      throw error;
+    } finally {
+      await this.dbConnection.close();
+    }
+  }
+
+  /**
+   * Quote a stored path for an input amount in whole anchor tokens
+   */
+  async quotePath(pathId: number, amount: string): Promise<PathQuote> {
+    try {
+      const db = await this.dbConnection.connect();
+
+      const quoter = new PathQuoter(db, this.reserveSource(db));
+      return await quoter.quoteTokenAmount(pathId, amount);
+    } catch (error) {
+      console.error('❌ Error quoting path:', error);
+      throw error;
+    } finally {
+      await this.dbConnection.close();
+    }
+  }
+
+  /**
+   * Find the profit-maximizing input size of a stored path
+   */
+  async optimizePath(pathId: number): Promise<PathOptimum> {
+    try {
+      const db = await this.dbConnection.connect();
+
+      const optimizer = new PathOptimizer(db, this.reserveSource(db));
+      return await optimizer.optimizeAndLog(pathId);
+    } catch (error) {
+      console.error('❌ Error optimizing path:', error);
+      throw error;
+    } finally {
+      await this.dbConnection.close();
+    }
+  }
+
+  /**
+   * Rank all stored paths by net profit after gas at the latest recorded reserves
+   */
+  async evaluatePaths(): Promise<PathEvaluation[]> {
+    try {
+      const db = await this.dbConnection.connect();
+
+      const evaluator = new PathEvaluator(db, new SnapshotReserveSource(db));
+      return await evaluator.evaluatePaths();
+    } catch (error) {
+      console.error('❌ Error evaluating paths:', error);
+      throw error;
+    } finally {
+      await this.dbConnection.close();
+    }
+  }
+
+  /**
+   * Store V3 pool snapshots (price, liquidity, initialized ticks) from a JSON file for quoting
+   */
+  async importV3Snapshots(filePath: string): Promise<number> {
+    try {
+      const db = await this.dbConnection.connect();
+      await new DatabaseSchema(db).initializeTables();
+
+      return await new V3SnapshotService(db).importFile(filePath);
+    } catch (error) {
+      console.error('❌ Error importing V3 snapshots:', error);
+      throw error;
+    } finally {
+      await this.dbConnection.close();
+    }
+  }
+
+  /**
+   * Recorded reserve snapshots with --from-snapshots, live view contract reads otherwise
+   */
+  private reserveSource(db: Database): ReserveSource {
+    return getConfig().arbitrage.RESERVES_FROM_SNAPSHOTS
+      ? new SnapshotReserveSource(db)
+      : new ViewContractReserveSource(db);
+  }
+}
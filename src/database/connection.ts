@@ -1,6 +1,8 @@
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
-import { DATA_CONFIG } from '../config/constants';
+import { getConfig } from '../config/config-manager';
+import { DatabaseSchema } from './schema';
+import { LATEST_SCHEMA_VERSION } from './migrations';
 
 /**
  * Database connection manager
@@ -22,19 +24,36 @@ export class DatabaseConnection {
   }
 
   /**
-   * Open database connection
+   * Open database connection and check the schema version against this build
    */
   async connect(): Promise<Database> {
     if (this.db) {
       return this.db;
     }
 
-    this.db = await open({
-      filename: DATA_CONFIG.DATABASE_PATH,
+    const databasePath = getConfig().data.DATABASE_PATH;
+    const db = await open({
+      filename: databasePath,
       driver: sqlite3.Database
     });
 
-    console.log(`🔗 Database connected: ${DATA_CONFIG.DATABASE_PATH}`);
+    await db.exec('PRAGMA foreign_keys = ON');
+
+    const schema = new DatabaseSchema(db);
+    try {
+      await schema.assertCompatible();
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+
+    const version = await schema.getCurrentVersion();
+    if (version < LATEST_SCHEMA_VERSION) {
+      console.warn(`⚠️  Database schema is at version ${version}, latest is ${LATEST_SCHEMA_VERSION}. Run "npm run cli migrate".`);
+    }
+
+    this.db = db;
+    console.log(`🔗 Database connected: ${databasePath}`);
     return this.db;
   }
 
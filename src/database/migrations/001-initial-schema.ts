@@ -0,0 +1,51 @@
+import { Migration } from '../../types';
+
+/**
+ * Tables as they existed before versioned migrations
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_pool (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dex_type TEXT NOT NULL,
+        pool_address TEXT NOT NULL,
+        fee_tier TEXT,
+        token0 TEXT NOT NULL,
+        token1 TEXT NOT NULL,
+        UNIQUE(pool_address)
+      );
+      CREATE INDEX IF NOT EXISTS idx_pool_tokens ON tbl_dex_pool(token0, token1);
+
+      CREATE TABLE IF NOT EXISTS tbl_dex_token (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address TEXT UNIQUE NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        decimal TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_token_address ON tbl_dex_token(address);
+
+      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_path (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        length INTEGER NOT NULL,
+        swap_path TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_step (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path_id INTEGER NOT NULL,
+        step_index INTEGER NOT NULL,
+        pool_address TEXT NOT NULL,
+        from_token TEXT NOT NULL,
+        to_token TEXT NOT NULL,
+        is_forward BOOLEAN NOT NULL,
+        FOREIGN KEY (path_id) REFERENCES tbl_dex_arbitrage_path(id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_step_path_id ON tbl_dex_arbitrage_step(path_id);
+    `);
+  }
+};
@@ -0,0 +1,36 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Load runs, per-row provenance and stale pool tracking
+ */
+export const loadRunTracking: Migration = {
+  version: 2,
+  name: 'load_run_tracking',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_load_run (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running',
+        file_count INTEGER NOT NULL DEFAULT 0,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        finished_at DATETIME
+      );
+    `);
+
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'source_file', 'TEXT');
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'first_load_run_id', 'INTEGER');
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'load_run_id', 'INTEGER');
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'updated_load_run_id', 'INTEGER');
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'is_stale', 'INTEGER NOT NULL DEFAULT 0');
+
+    await addColumnIfMissing(db, 'tbl_dex_token', 'source_file', 'TEXT');
+    await addColumnIfMissing(db, 'tbl_dex_token', 'load_run_id', 'INTEGER');
+    await addColumnIfMissing(db, 'tbl_dex_token', 'updated_load_run_id', 'INTEGER');
+
+    await db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_pool_dex_run ON tbl_dex_pool(dex_type, load_run_id);
+    `);
+  }
+};
@@ -0,0 +1,26 @@
+import { Migration } from '../../types';
+
+/**
+ * Quarantine table for records rejected by ingest validation
+ */
+export const quarantine: Migration = {
+  version: 3,
+  name: 'quarantine',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_quarantine (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        load_run_id INTEGER,
+        dex_type TEXT NOT NULL,
+        source_file TEXT,
+        reason TEXT NOT NULL,
+        detail TEXT,
+        raw_json TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        reimported_at DATETIME
+      );
+      CREATE INDEX IF NOT EXISTS idx_quarantine_status ON tbl_dex_quarantine(status, reason);
+    `);
+  }
+};
@@ -0,0 +1,43 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Numeric volume/liquidity metadata and INTEGER token decimals
+ */
+export const volumeLiquidity: Migration = {
+  version: 4,
+  name: 'volume_liquidity',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'volume_usd', 'REAL');
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'volume_snapshot_at', 'DATETIME');
+
+    await addColumnIfMissing(db, 'tbl_dex_token', 'total_liquidity', 'REAL');
+    await addColumnIfMissing(db, 'tbl_dex_token', 'liquidity_snapshot_at', 'DATETIME');
+
+    // SQLite cannot change a column type in place: rebuild the token table with decimal as INTEGER
+    await db.exec(`
+      CREATE TABLE tbl_dex_token_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address TEXT UNIQUE NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        decimal INTEGER,
+        total_liquidity REAL,
+        liquidity_snapshot_at DATETIME,
+        source_file TEXT,
+        load_run_id INTEGER,
+        updated_load_run_id INTEGER
+      );
+
+      INSERT INTO tbl_dex_token_new
+        (id, address, name, symbol, decimal, total_liquidity, liquidity_snapshot_at, source_file, load_run_id, updated_load_run_id)
+      SELECT id, address, name, symbol, CAST(decimal AS INTEGER), total_liquidity, liquidity_snapshot_at,
+             source_file, load_run_id, updated_load_run_id
+      FROM tbl_dex_token;
+
+      DROP TABLE tbl_dex_token;
+      ALTER TABLE tbl_dex_token_new RENAME TO tbl_dex_token;
+      CREATE INDEX IF NOT EXISTS idx_token_address ON tbl_dex_token(address);
+    `);
+  }
+};
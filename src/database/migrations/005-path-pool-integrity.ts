@@ -0,0 +1,48 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Steps reference pools by id with enforced foreign keys; paths can be invalidated
+ */
+export const pathPoolIntegrity: Migration = {
+  version: 5,
+  name: 'path_pool_integrity',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'invalidated_at', 'DATETIME');
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'invalidation_reason', 'TEXT');
+
+    // Rebuild steps: pool_id → tbl_dex_pool (SET NULL keeps the step of an invalidated path),
+    // path_id → tbl_dex_arbitrage_path (CASCADE removes steps with their path)
+    await db.exec(`
+      CREATE TABLE tbl_dex_arbitrage_step_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path_id INTEGER NOT NULL,
+        step_index INTEGER NOT NULL,
+        pool_id INTEGER,
+        pool_address TEXT NOT NULL,
+        from_token TEXT NOT NULL,
+        to_token TEXT NOT NULL,
+        is_forward BOOLEAN NOT NULL,
+        FOREIGN KEY (path_id) REFERENCES tbl_dex_arbitrage_path(id) ON DELETE CASCADE,
+        FOREIGN KEY (pool_id) REFERENCES tbl_dex_pool(id) ON DELETE SET NULL
+      );
+
+      INSERT INTO tbl_dex_arbitrage_step_new
+        (id, path_id, step_index, pool_id, pool_address, from_token, to_token, is_forward)
+      SELECT s.id, s.path_id, s.step_index, p.id, s.pool_address, s.from_token, s.to_token, s.is_forward
+      FROM tbl_dex_arbitrage_step s
+      LEFT JOIN tbl_dex_pool p ON p.pool_address = s.pool_address;
+
+      DROP TABLE tbl_dex_arbitrage_step;
+      ALTER TABLE tbl_dex_arbitrage_step_new RENAME TO tbl_dex_arbitrage_step;
+      CREATE INDEX IF NOT EXISTS idx_step_path_id ON tbl_dex_arbitrage_step(path_id);
+      CREATE INDEX IF NOT EXISTS idx_step_pool_id ON tbl_dex_arbitrage_step(pool_id);
+
+      -- Paths whose pools were already deleted before this migration
+      UPDATE tbl_dex_arbitrage_path
+      SET invalidated_at = CURRENT_TIMESTAMP, invalidation_reason = 'pool missing at migration'
+      WHERE invalidated_at IS NULL
+        AND id IN (SELECT path_id FROM tbl_dex_arbitrage_step WHERE pool_id IS NULL);
+    `);
+  }
+};
@@ -0,0 +1,77 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * chain_id on pools, tokens, paths, load runs and quarantine; addresses are unique per chain.
+ * Existing rows are assigned to Ethereum mainnet (1).
+ */
+export const multiChain: Migration = {
+  version: 6,
+  name: 'multi_chain',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'chain_id', 'INTEGER NOT NULL DEFAULT 1');
+    await addColumnIfMissing(db, 'tbl_dex_load_run', 'chain_id', 'INTEGER NOT NULL DEFAULT 1');
+    await addColumnIfMissing(db, 'tbl_dex_quarantine', 'chain_id', 'INTEGER NOT NULL DEFAULT 1');
+
+    // Rebuild pools and tokens: UNIQUE(pool_address) / UNIQUE(address) become per-chain
+    await db.exec(`
+      CREATE TABLE tbl_dex_pool_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        dex_type TEXT NOT NULL,
+        pool_address TEXT NOT NULL,
+        fee_tier TEXT,
+        token0 TEXT NOT NULL,
+        token1 TEXT NOT NULL,
+        volume_usd REAL,
+        volume_snapshot_at DATETIME,
+        source_file TEXT,
+        first_load_run_id INTEGER,
+        load_run_id INTEGER,
+        updated_load_run_id INTEGER,
+        is_stale INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(chain_id, pool_address)
+      );
+
+      INSERT INTO tbl_dex_pool_new
+        (id, chain_id, dex_type, pool_address, fee_tier, token0, token1, volume_usd, volume_snapshot_at,
+         source_file, first_load_run_id, load_run_id, updated_load_run_id, is_stale)
+      SELECT id, 1, dex_type, pool_address, fee_tier, token0, token1, volume_usd, volume_snapshot_at,
+             source_file, first_load_run_id, load_run_id, updated_load_run_id, is_stale
+      FROM tbl_dex_pool;
+
+      DROP TABLE tbl_dex_pool;
+      ALTER TABLE tbl_dex_pool_new RENAME TO tbl_dex_pool;
+      CREATE INDEX IF NOT EXISTS idx_pool_tokens ON tbl_dex_pool(chain_id, token0, token1);
+      CREATE INDEX IF NOT EXISTS idx_pool_dex_run ON tbl_dex_pool(chain_id, dex_type, load_run_id);
+
+      CREATE TABLE tbl_dex_token_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL DEFAULT 1,
+        address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        decimal INTEGER,
+        total_liquidity REAL,
+        liquidity_snapshot_at DATETIME,
+        source_file TEXT,
+        load_run_id INTEGER,
+        updated_load_run_id INTEGER,
+        UNIQUE(chain_id, address)
+      );
+
+      INSERT INTO tbl_dex_token_new
+        (id, chain_id, address, name, symbol, decimal, total_liquidity, liquidity_snapshot_at,
+         source_file, load_run_id, updated_load_run_id)
+      SELECT id, 1, address, name, symbol, decimal, total_liquidity, liquidity_snapshot_at,
+             source_file, load_run_id, updated_load_run_id
+      FROM tbl_dex_token;
+
+      DROP TABLE tbl_dex_token;
+      ALTER TABLE tbl_dex_token_new RENAME TO tbl_dex_token;
+      CREATE INDEX IF NOT EXISTS idx_token_address ON tbl_dex_token(chain_id, address);
+
+      CREATE INDEX IF NOT EXISTS idx_path_chain ON tbl_dex_arbitrage_path(chain_id);
+    `);
+  }
+};
@@ -0,0 +1,25 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Paths record the anchor (flash-loan) token their cycle starts and ends at
+ */
+export const pathAnchor: Migration = {
+  version: 7,
+  name: 'path_anchor',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'anchor_token', 'TEXT');
+
+    // Existing paths start at the anchor: take it from the first step
+    await db.exec(`
+      UPDATE tbl_dex_arbitrage_path
+      SET anchor_token = (
+        SELECT s.from_token FROM tbl_dex_arbitrage_step s
+        WHERE s.path_id = tbl_dex_arbitrage_path.id AND s.step_index = 0
+      )
+      WHERE anchor_token IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_path_anchor ON tbl_dex_arbitrage_path(chain_id, anchor_token);
+    `);
+  }
+};
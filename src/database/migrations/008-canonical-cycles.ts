@@ -0,0 +1,97 @@
+import { Migration } from '../../types';
+import { CycleUtils } from '../../utils/cycle-utils';
+import { addColumnIfMissing } from './helpers';
+
+const BACKFILL_PAGE_SIZE = 1000;
+
+/**
+ * Cycles are stored once under a canonical pool-sequence key; paths link to their cycle with an anchor
+ * and direction, unique per (cycle, anchor, direction). Existing paths are backfilled and duplicates removed.
+ */
+export const canonicalCycles: Migration = {
+  version: 8,
+  name: 'canonical_cycles',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_cycle (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL,
+        cycle_key TEXT NOT NULL,
+        length INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(chain_id, cycle_key)
+      );
+    `);
+
+    await addColumnIfMissing(
+      db, 'tbl_dex_arbitrage_path', 'cycle_id',
+      'INTEGER REFERENCES tbl_dex_arbitrage_cycle(id) ON DELETE CASCADE'
+    );
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'direction', 'TEXT');
+
+    // Backfill cycle and direction from the stored steps, one page of paths at a time
+    let lastId = 0;
+    for (;;) {
+      const paths = await db.all<{ id: number, chain_id: number }[]>(
+        `SELECT id, chain_id FROM tbl_dex_arbitrage_path WHERE id > ? AND cycle_id IS NULL ORDER BY id LIMIT ?`,
+        [lastId, BACKFILL_PAGE_SIZE]
+      );
+      if (paths.length === 0) break;
+      lastId = paths[paths.length - 1].id;
+
+      const steps = await db.all<{ path_id: number, pool_address: string, from_token: string, to_token: string }[]>(
+        `SELECT path_id, pool_address, from_token, to_token FROM tbl_dex_arbitrage_step
+         WHERE path_id BETWEEN ? AND ? ORDER BY path_id, step_index`,
+        [paths[0].id, lastId]
+      );
+      const stepsByPath = new Map<number, typeof steps>();
+      for (const step of steps) {
+        if (!stepsByPath.has(step.path_id)) stepsByPath.set(step.path_id, []);
+        stepsByPath.get(step.path_id)!.push(step);
+      }
+
+      for (const path of paths) {
+        const pathSteps = stepsByPath.get(path.id);
+        if (!pathSteps || pathSteps.length === 0) continue;
+
+        const tokens = [...pathSteps.map(s => s.from_token), pathSteps[pathSteps.length - 1].to_token];
+        const { cycleKey, direction } = CycleUtils.canonicalize(tokens, pathSteps.map(s => s.pool_address));
+
+        await db.run(
+          `INSERT OR IGNORE INTO tbl_dex_arbitrage_cycle (chain_id, cycle_key, length) VALUES (?, ?, ?)`,
+          [path.chain_id, cycleKey, pathSteps.length]
+        );
+        await db.run(
+          `UPDATE tbl_dex_arbitrage_path
+           SET cycle_id = (SELECT id FROM tbl_dex_arbitrage_cycle WHERE chain_id = ? AND cycle_key = ?), direction = ?
+           WHERE id = ?`,
+          [path.chain_id, cycleKey, direction, path.id]
+        );
+      }
+    }
+
+    // Keep one path per (cycle, anchor, direction): a valid one if any, else the oldest.
+    // Foreign keys are off during migrations, so steps are removed explicitly.
+    const duplicates = `
+      SELECT p.id FROM tbl_dex_arbitrage_path p
+      WHERE p.cycle_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM tbl_dex_arbitrage_path q
+        WHERE q.cycle_id = p.cycle_id AND q.anchor_token = p.anchor_token AND q.direction = p.direction
+          AND q.id <> p.id
+          AND ((q.invalidated_at IS NULL) > (p.invalidated_at IS NULL)
+            OR ((q.invalidated_at IS NULL) = (p.invalidated_at IS NULL) AND q.id < p.id))
+      )
+    `;
+    await db.exec(`
+      CREATE INDEX tmp_idx_path_cycle ON tbl_dex_arbitrage_path(cycle_id, anchor_token, direction);
+      CREATE TEMP TABLE tmp_duplicate_path AS ${duplicates};
+      DELETE FROM tbl_dex_arbitrage_step WHERE path_id IN (SELECT id FROM tmp_duplicate_path);
+      DELETE FROM tbl_dex_arbitrage_path WHERE id IN (SELECT id FROM tmp_duplicate_path);
+      DROP TABLE tmp_duplicate_path;
+      DROP INDEX tmp_idx_path_cycle;
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_path_cycle_direction
+        ON tbl_dex_arbitrage_path(cycle_id, anchor_token, direction);
+    `);
+  }
+};
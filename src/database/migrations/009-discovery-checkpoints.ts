@@ -0,0 +1,32 @@
+import { Migration } from '../../types';
+
+/**
+ * Discovery runs and their checkpoints: (anchor, first pool) pairs whose cycles are fully stored
+ */
+export const discoveryCheckpoints: Migration = {
+  version: 9,
+  name: 'discovery_checkpoints',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_discovery_run (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running',
+        params_json TEXT NOT NULL,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        finished_at DATETIME
+      );
+
+      CREATE TABLE IF NOT EXISTS tbl_dex_discovery_checkpoint (
+        run_id INTEGER NOT NULL,
+        anchor_token TEXT NOT NULL,
+        first_pool TEXT NOT NULL,
+        completed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (run_id, anchor_token, first_pool),
+        FOREIGN KEY (run_id) REFERENCES tbl_dex_discovery_run(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_discovery_run_chain ON tbl_dex_discovery_run(chain_id, status);
+    `);
+  }
+};
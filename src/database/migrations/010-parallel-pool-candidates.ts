@@ -0,0 +1,25 @@
+import { Migration } from '../../types';
+
+/**
+ * Candidate pools per step for paths found with parallel same-pair pools collapsed into one edge
+ */
+export const parallelPoolCandidates: Migration = {
+  version: 10,
+  name: 'parallel_pool_candidates',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_step_candidate (
+        path_id INTEGER NOT NULL,
+        step_index INTEGER NOT NULL,
+        pool_id INTEGER,
+        pool_address TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        PRIMARY KEY (path_id, step_index, pool_address),
+        FOREIGN KEY (path_id) REFERENCES tbl_dex_arbitrage_path(id) ON DELETE CASCADE,
+        FOREIGN KEY (pool_id) REFERENCES tbl_dex_pool(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_step_candidate_pool_id ON tbl_dex_arbitrage_step_candidate(pool_id);
+    `);
+  }
+};
@@ -0,0 +1,29 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Steps carry the swap direction within their pool, the pool's fee in basis points and its DEX type
+ */
+export const stepSwapMetadata: Migration = {
+  version: 11,
+  name: 'step_swap_metadata',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_step', 'zero_for_one', 'BOOLEAN');
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_step', 'fee_bps', 'REAL');
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_step', 'dex_type', 'TEXT');
+
+    // is_forward was always written as 1; both direction columns now follow the pool's token order.
+    // Steps of invalidated paths (no pool left) keep NULL metadata.
+    await db.exec(`
+      UPDATE tbl_dex_arbitrage_step
+      SET zero_for_one = (SELECT p.token0 = tbl_dex_arbitrage_step.from_token FROM tbl_dex_pool p WHERE p.id = tbl_dex_arbitrage_step.pool_id),
+          fee_bps = (SELECT CAST(p.fee_tier AS REAL) / 100 FROM tbl_dex_pool p WHERE p.id = tbl_dex_arbitrage_step.pool_id),
+          dex_type = (SELECT p.dex_type FROM tbl_dex_pool p WHERE p.id = tbl_dex_arbitrage_step.pool_id)
+      WHERE pool_id IS NOT NULL;
+
+      UPDATE tbl_dex_arbitrage_step
+      SET is_forward = zero_for_one
+      WHERE zero_for_one IS NOT NULL;
+    `);
+  }
+};
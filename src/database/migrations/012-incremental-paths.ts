@@ -0,0 +1,29 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Paths record the load run that added their newest pool; discovery runs record the load run they cover
+ */
+export const incrementalPaths: Migration = {
+  version: 12,
+  name: 'incremental_paths',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_arbitrage_path', 'load_run_id', 'INTEGER');
+    await addColumnIfMissing(db, 'tbl_dex_discovery_run', 'load_run_id', 'INTEGER');
+
+    await db.exec(`
+      UPDATE tbl_dex_arbitrage_path
+      SET load_run_id = (
+        SELECT MAX(p.first_load_run_id) FROM tbl_dex_pool p
+        WHERE p.id IN (
+          SELECT s.pool_id FROM tbl_dex_arbitrage_step s WHERE s.path_id = tbl_dex_arbitrage_path.id
+          UNION
+          SELECT c.pool_id FROM tbl_dex_arbitrage_step_candidate c WHERE c.path_id = tbl_dex_arbitrage_path.id
+        )
+      )
+      WHERE load_run_id IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_path_load_run ON tbl_dex_arbitrage_path(chain_id, load_run_id);
+    `);
+  }
+};
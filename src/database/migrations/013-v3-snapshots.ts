@@ -0,0 +1,36 @@
+import { Migration } from '../../types';
+
+/**
+ * Per-block V3 pool state (price, in-range liquidity, initialized ticks) for exact swap simulation
+ */
+export const v3Snapshots: Migration = {
+  version: 13,
+  name: 'v3_snapshots',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_v3_snapshot (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL,
+        pool_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        captured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        sqrt_price_x96 TEXT NOT NULL,
+        tick INTEGER NOT NULL,
+        liquidity TEXT NOT NULL,
+        tick_spacing INTEGER NOT NULL,
+        UNIQUE (pool_id, block_number),
+        FOREIGN KEY (pool_id) REFERENCES tbl_dex_pool(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS tbl_dex_v3_tick (
+        snapshot_id INTEGER NOT NULL,
+        tick INTEGER NOT NULL,
+        liquidity_net TEXT NOT NULL,
+        PRIMARY KEY (snapshot_id, tick),
+        FOREIGN KEY (snapshot_id) REFERENCES tbl_dex_v3_snapshot(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_v3_snapshot_chain_block ON tbl_dex_v3_snapshot(chain_id, block_number);
+    `);
+  }
+};
@@ -0,0 +1,28 @@
+import { Migration } from '../../types';
+
+/**
+ * Reserve history of constant-product pools, one row per pool and block read through the view contract
+ */
+export const reserveSnapshots: Migration = {
+  version: 14,
+  name: 'reserve_snapshots',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_reserve_snapshot (
+        chain_id INTEGER NOT NULL,
+        pool_address TEXT NOT NULL,
+        pool_id INTEGER,
+        block_number INTEGER NOT NULL,
+        block_timestamp INTEGER NOT NULL,
+        reserve0 TEXT NOT NULL,
+        reserve1 TEXT NOT NULL,
+        captured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, pool_address, block_number),
+        FOREIGN KEY (pool_id) REFERENCES tbl_dex_pool(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reserve_snapshot_block ON tbl_dex_reserve_snapshot(chain_id, block_number);
+      CREATE INDEX IF NOT EXISTS idx_reserve_snapshot_pool_id ON tbl_dex_reserve_snapshot(pool_id);
+    `);
+  }
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../../types';
+
+/**
+ * Latest evaluate-paths results: each path quoted at each input size, net of gas, ranked per anchor
+ */
+export const pathEvaluation: Migration = {
+  version: 15,
+  name: 'path_evaluation',
+  async up(db) {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tbl_dex_path_evaluation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain_id INTEGER NOT NULL,
+        path_id INTEGER NOT NULL,
+        anchor_token TEXT NOT NULL,
+        swap_path TEXT NOT NULL,
+        amount_in TEXT NOT NULL,
+        amount_out TEXT NOT NULL,
+        gross_profit TEXT NOT NULL,
+        gas_units INTEGER NOT NULL,
+        gas_cost TEXT NOT NULL,
+        net_profit TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        evaluated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (path_id) REFERENCES tbl_dex_arbitrage_path(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_path_evaluation_rank ON tbl_dex_path_evaluation(chain_id, anchor_token, rank);
+      CREATE INDEX IF NOT EXISTS idx_path_evaluation_path_id ON tbl_dex_path_evaluation(path_id);
+    `);
+  }
+};
@@ -0,0 +1,13 @@
+import { Migration } from '../../types';
+import { addColumnIfMissing } from './helpers';
+
+/**
+ * Pools record the load run that last brought them back from stale, so delta discovery treats them as new
+ */
+export const poolRevival: Migration = {
+  version: 16,
+  name: 'pool_revival',
+  async up(db) {
+    await addColumnIfMissing(db, 'tbl_dex_pool', 'revived_load_run_id', 'INTEGER');
+  }
+};
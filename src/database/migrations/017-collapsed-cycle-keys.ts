@@ -0,0 +1,17 @@
+import { Migration } from '../../types';
+
+/**
+ * Cycles found with collapsed parallel pools get their own key namespace, apart from per-pool cycle keys
+ */
+export const collapsedCycleKeys: Migration = {
+  version: 17,
+  name: 'collapsed_cycle_keys',
+  async up(db) {
+    // Only collapsed hops (token pairs) put a '/' in a cycle key
+    await db.exec(`
+      UPDATE tbl_dex_arbitrage_cycle
+      SET cycle_key = 'collapsed:' || cycle_key
+      WHERE cycle_key LIKE '%/%' AND cycle_key NOT LIKE 'collapsed:%'
+    `);
+  }
+};
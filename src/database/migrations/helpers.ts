@@ -0,0 +1,18 @@
+import { Database } from 'sqlite';
+
+/**
+ * Check whether a table has a column
+ */
+export async function hasColumn(db: Database, table: string, column: string): Promise<boolean> {
+  const columns = await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+  return columns.some(c => c.name === column);
+}
+
+/**
+ * Add a column unless it already exists (databases created before migrations may already have it)
+ */
+export async function addColumnIfMissing(db: Database, table: string, column: string, definition: string): Promise<void> {
+  if (!(await hasColumn(db, table, column))) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { Migration } from '../../types';
+import { initialSchema } from './001-initial-schema';
+import { loadRunTracking } from './002-load-run-tracking';
+import { quarantine } from './003-quarantine';
+import { volumeLiquidity } from './004-volume-liquidity';
+import { pathPoolIntegrity } from './005-path-pool-integrity';
+import { multiChain } from './006-multi-chain';
+import { pathAnchor } from './007-path-anchor';
+import { canonicalCycles } from './008-canonical-cycles';
+import { discoveryCheckpoints } from './009-discovery-checkpoints';
+import { parallelPoolCandidates } from './010-parallel-pool-candidates';
+import { stepSwapMetadata } from './011-step-swap-metadata';
+import { incrementalPaths } from './012-incremental-paths';
+import { v3Snapshots } from './013-v3-snapshots';
+import { reserveSnapshots } from './014-reserve-snapshots';
+import { pathEvaluation } from './015-path-evaluation';
+import { poolRevival } from './016-pool-revival';
+import { collapsedCycleKeys } from './017-collapsed-cycle-keys';
+
+/**
+ * All schema migrations in version order - append new migrations at the end
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  loadRunTracking,
+  quarantine,
+  volumeLiquidity,
+  pathPoolIntegrity,
+  multiChain,
+  pathAnchor,
+  canonicalCycles,
+  discoveryCheckpoints,
+  parallelPoolCandidates,
+  stepSwapMetadata,
+  incrementalPaths,
+  v3Snapshots,
+  reserveSnapshots,
+  pathEvaluation,
+  poolRevival,
+  collapsedCycleKeys
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
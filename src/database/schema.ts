@@ -1,85 +1,129 @@
 import { Database } from 'sqlite';
+import { MigrationStatus } from '../types';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION } from './migrations';
 
 /**
- * Database schema manager - handles table creation and migrations
+ * Database schema manager - applies versioned migrations tracked in schema_version
  */
 export class DatabaseSchema {
   constructor(private db: Database) {}
 
   /**
-   * Initialize all required tables
+   * Initialize all required tables (applies any pending migrations)
    */
   async initializeTables(): Promise<void> {
-    await this.createPoolTable();
-    await this.createTokenTable();
-    await this.createArbitragePathTable();
-    await this.createArbitrageStepTable();
+    await this.migrate();
   }
 
-  private async createPoolTable(): Promise<void> {
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tbl_dex_pool (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        dex_type TEXT NOT NULL,
-        pool_address TEXT NOT NULL,
-        fee_tier TEXT,
-        token0 TEXT NOT NULL,
-        token1 TEXT NOT NULL,
-        UNIQUE(pool_address)
-      );
-    `);
+  /**
+   * Apply pending migrations in order, each in its own transaction.
+   * Returns the number of migrations applied.
+   */
+  async migrate(): Promise<number> {
+    await this.ensureVersionTable();
+    await this.assertCompatible();
 
-    // Create indexes for better query performance
-    await this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_pool_tokens ON tbl_dex_pool(token0, token1);
-    `);
+    const currentVersion = await this.getCurrentVersion();
+    const pending = MIGRATIONS.filter(m => m.version > currentVersion);
+    if (pending.length === 0) return 0;
+
+    // Table rebuilds must not fire ON DELETE actions; the pragma is a no-op inside a transaction
+    await this.db.exec('PRAGMA foreign_keys = OFF');
+
+    try {
+      for (const migration of pending) {
+        console.log(`⬆️  Applying migration ${migration.version}: ${migration.name}`);
+
+        await this.db.run('BEGIN TRANSACTION');
+        try {
+          await migration.up(this.db);
+          await this.assertForeignKeys(migration.version);
+          await this.db.run(
+            `INSERT INTO schema_version (version, name) VALUES (?, ?)`,
+            [migration.version, migration.name]
+          );
+          await this.db.run('COMMIT');
+        } catch (error) {
+          await this.db.run('ROLLBACK');
+          throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      await this.db.exec('PRAGMA foreign_keys = ON');
+    }
+
+    return pending.length;
   }
 
-  private async createTokenTable(): Promise<void> {
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tbl_dex_token (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        address TEXT UNIQUE NOT NULL,
-        name TEXT,
-        symbol TEXT,
-        decimal TEXT
-      );
-    `);
+  /**
+   * Applied and pending migrations
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    await this.ensureVersionTable();
 
-    // Create index for address lookups
-    await this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_token_address ON tbl_dex_token(address);
-    `);
+    const applied = await this.db.all<{ version: number, name: string, applied_at: string }[]>(
+      `SELECT version, name, applied_at FROM schema_version ORDER BY version`
+    );
+    const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+
+    const known: MigrationStatus[] = MIGRATIONS.map(m => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: appliedByVersion.get(m.version)?.applied_at ?? null
+    }));
+
+    // Versions applied by newer code that this build does not know about
+    const unknown: MigrationStatus[] = applied
+      .filter(row => row.version > LATEST_SCHEMA_VERSION)
+      .map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+
+    return [...known, ...unknown];
   }
 
-  private async createArbitragePathTable(): Promise<void> {
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_path (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        length INTEGER NOT NULL,
-        swap_path TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+  /**
+   * Highest applied migration version (0 for a fresh or pre-migration database)
+   */
+  async getCurrentVersion(): Promise<number> {
+    const exists = await this.db.get(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`
+    );
+    if (!exists) return 0;
+
+    const row = await this.db.get<{ version: number | null }>(`SELECT MAX(version) as version FROM schema_version`);
+    return row?.version ?? 0;
   }
 
-  private async createArbitrageStepTable(): Promise<void> {
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tbl_dex_arbitrage_step (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        path_id INTEGER NOT NULL,
-        step_index INTEGER NOT NULL,
-        pool_address TEXT NOT NULL,
-        from_token TEXT NOT NULL,
-        to_token TEXT NOT NULL,
-        is_forward BOOLEAN NOT NULL,
-        FOREIGN KEY (path_id) REFERENCES tbl_dex_arbitrage_path(id)
+  /**
+   * Refuse to run against a database migrated by newer code
+   */
+  async assertCompatible(): Promise<void> {
+    const currentVersion = await this.getCurrentVersion();
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than this build supports (${LATEST_SCHEMA_VERSION}). ` +
+        'Upgrade the application before using this database.'
       );
-    `);
+    }
+  }
 
-    // Create index for path lookups
+  /**
+   * Fail the migration if it left rows violating a foreign key
+   */
+  private async assertForeignKeys(version: number): Promise<void> {
+    const violations = await this.db.all<{ table: string }[]>('PRAGMA foreign_key_check');
+    if (violations.length > 0) {
+      const tables = Array.from(new Set(violations.map(v => v.table))).join(', ');
+      throw new Error(`${violations.length} foreign key violation(s) after migration ${version} in: ${tables}`);
+    }
+  }
+
+  private async ensureVersionTable(): Promise<void> {
     await this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_step_path_id ON tbl_dex_arbitrage_step(path_id);
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
     `);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { Database } from 'sqlite';
+import { PoolInfo, PoolReserves, ReserveSource } from '../types';
+import { CONSTANT_PRODUCT_DEX_TYPES } from '../config/constants';
+import { ReserveSnapshotService } from '../services/reserve-snapshot-service';
+
+/**
+ * Recorded reserves of constant-product pools: the latest snapshot, or the last one at or before a block
+ */
+export class SnapshotReserveSource implements ReserveSource {
+  readonly name: string;
+  private snapshots: ReserveSnapshotService;
+
+  constructor(db: Database, private atBlock?: number) {
+    this.name = atBlock === undefined ? 'reserve snapshots' : `reserve snapshots at block ${atBlock}`;
+    this.snapshots = new ReserveSnapshotService(db);
+  }
+
+  async getReserves(pools: PoolInfo[]): Promise<Map<string, PoolReserves>> {
+    const addresses = pools
+      .filter(pool => CONSTANT_PRODUCT_DEX_TYPES.includes(pool.dex_type))
+      .map(pool => pool.pool_address);
+
+    return this.snapshots.getLatest(addresses, this.atBlock);
+  }
+}
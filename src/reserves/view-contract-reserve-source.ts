@@ -0,0 +1,27 @@
+import { Database } from 'sqlite';
+import { PoolInfo, PoolReserves, ReserveSource } from '../types';
+import { CONSTANT_PRODUCT_DEX_TYPES } from '../config/constants';
+import { LiquidityCleaner } from '../services/liquidity-cleaner';
+
+/**
+ * Current reserves of constant-product pools read through the chain's view contract
+ */
+export class ViewContractReserveSource implements ReserveSource {
+  readonly name = 'view contract';
+
+  constructor(private db: Database) {}
+
+  async getReserves(pools: PoolInfo[]): Promise<Map<string, PoolReserves>> {
+    const addresses = pools
+      .filter(pool => CONSTANT_PRODUCT_DEX_TYPES.includes(pool.dex_type))
+      .map(pool => pool.pool_address);
+
+    const liquidity = await new LiquidityCleaner(this.db).checkPoolsLiquidity(addresses);
+
+    return new Map(liquidity.map(info => [info.poolAddress, {
+      poolAddress: info.poolAddress,
+      reserve0: info.token0Balance,
+      reserve1: info.token1Balance
+    }]));
+  }
+}
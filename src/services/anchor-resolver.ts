@@ -0,0 +1,92 @@
+import { ChainConfig, TokenInfo } from '../types';
+
+/**
+ * Resolves configured anchor tokens (addresses or symbols) against the loaded tokens and search graph
+ */
+export class AnchorResolver {
+  constructor(
+    private tokenCache: Map<string, string>,
+    private adjMap: Map<string, unknown[]>,
+    private chain: ChainConfig
+  ) {}
+
+  /**
+   * Resolve anchor entries to tokens with pool connections; throws if none is usable
+   */
+  resolve(entries: readonly string[]): TokenInfo[] {
+    const anchors: TokenInfo[] = [];
+
+    for (const entry of entries) {
+      const anchor = entry.startsWith('0x')
+        ? this.findAnchorByAddress(entry)
+        : this.findAnchorBySymbol(entry);
+
+      if (!anchor) {
+        console.warn(`⚠️  Anchor token ${entry} not found on ${this.chain.NAME} - skipping`);
+        continue;
+      }
+      if (anchors.some(a => a.address === anchor.address)) continue;
+
+      const connections = this.connections(anchor);
+      if (connections === 0) {
+        console.warn(`⚠️  Anchor token ${anchor.symbol} has no liquidity pools - skipping`);
+        continue;
+      }
+
+      console.log(`🎯 Anchor token: ${anchor.symbol} at ${anchor.address} (${connections} pool connections)`);
+      anchors.push(anchor);
+    }
+
+    if (anchors.length === 0) {
+      throw new Error(
+        `None of the anchor tokens (${entries.join(', ')}) has pools on ${this.chain.NAME} - ensure token data is loaded`
+      );
+    }
+
+    return anchors;
+  }
+
+  private connections(token: TokenInfo): number {
+    return this.adjMap.get(token.address)?.length ?? 0;
+  }
+
+  /**
+   * Find an anchor token by address, falling back to the wrapped native symbol for the default anchor
+   */
+  private findAnchorByAddress(address: string): TokenInfo | undefined {
+    const symbol = this.tokenCache.get(address);
+    if (symbol !== undefined) {
+      return { address, symbol };
+    }
+
+    if (address === this.chain.WRAPPED_NATIVE) {
+      console.warn(`⚠️  ${this.chain.WRAPPED_NATIVE_SYMBOL} not found at expected address: ${address}`);
+      console.log(`🔍 Trying to find ${this.chain.WRAPPED_NATIVE_SYMBOL} by symbol...`);
+      return this.findAnchorBySymbol(this.chain.WRAPPED_NATIVE_SYMBOL);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find an anchor token by symbol; when several tokens share it, take the best connected one
+   */
+  private findAnchorBySymbol(symbol: string): TokenInfo | undefined {
+    const wanted = symbol.toLowerCase();
+    const matches = Array.from(this.tokenCache.entries())
+      .filter(([, tokenSymbol]) => tokenSymbol && tokenSymbol.toLowerCase() === wanted)
+      .map(([address, tokenSymbol]): TokenInfo => ({ address, symbol: tokenSymbol }));
+
+    if (matches.length === 0) return undefined;
+
+    matches.sort((a, b) => this.connections(b) - this.connections(a));
+
+    if (matches.length > 1) {
+      console.warn(`⚠️  ${matches.length} tokens use the symbol ${symbol} - using the best connected one at ${matches[0].address}`);
+    } else {
+      console.log(`✅ Found ${symbol} by symbol at ${matches[0].address}`);
+    }
+
+    return matches[0];
+  }
+}
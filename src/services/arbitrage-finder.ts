@@ -1,7 +1,19 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
 import { Database } from 'sqlite';
-import { TokenInfo, PoolInfo, PoolEdge, ArbitragePath } from '../types';
-import { ARBITRAGE_CONFIG } from '../config/constants';
-import { BatchProcessor } from './batch-processor';
+import {
+  TokenInfo, PoolInfo, PoolEdge, ArbitragePath, ArbitrageConfig, ChainConfig,
+  CycleSearchOptions, CycleSearchStats, CycleSearchTask, CycleWorkerMessage, DiscoveryOptions, DiscoveryParams, DiscoveryRun,
+  DiscoveryRunStatus,
+  PathSink, PruningConfig, PruningReport
+} from '../types';
+import { getConfig } from '../config/config-manager';
+import { CycleSearch } from '../utils/cycle-search';
+import { CycleUtils } from '../utils/cycle-utils';
+import { DiscoveryCheckpointService } from './discovery-checkpoint';
+import { AnchorResolver } from './anchor-resolver';
+import { GraphPruner } from './graph-pruner';
+import { PathSinkFactory } from '../sinks/path-sink-factory';
 
 /**
  * Service for discovering arbitrage paths using DFS algorithm
@@ -10,11 +22,29 @@ export class ArbitrageFinderService {
   private tokenCache = new Map<string, string>();
   private adjMap = new Map<string, PoolEdge[]>();
   private poolCache = new Map<string, PoolInfo>();
-  private batchProcessor: BatchProcessor;
+  /** Parallel pools behind each collapsed edge, highest volume first */
+  private parallelGroups = new Map<string, PoolInfo[]>();
+  private sink: PathSink;
   private pathsFound = 0;
-
-  constructor(private db: Database) {
-    this.batchProcessor = new BatchProcessor(db);
+  /** Paths found per anchor address and hop count */
+  private pathsByHops = new Map<string, Map<number, number>>();
+  private config: ArbitrageConfig = getConfig().arbitrage;
+  private chain: ChainConfig = getConfig().chain;
+  private pruning: PruningConfig = getConfig().pruning;
+  private pruningReport: PruningReport[] = [];
+  private requiredTokens: string[] = [];
+  /** Edges with a pool new since the last covered load run (delta search only) */
+  private requiredPools: string[] = [];
+  private searchStats: CycleSearchStats = { rejectedCycles: 0 };
+
+  private checkpoints: DiscoveryCheckpointService;
+  /** Only runs that store paths in SQLite are recorded: delta and resume rely on those paths */
+  private recordsRun: boolean;
+
+  constructor(private db: Database, private options: DiscoveryOptions = { resume: false, delta: false }) {
+    this.sink = PathSinkFactory.create(db, this.config.OUTPUTS, options.resume);
+    this.checkpoints = new DiscoveryCheckpointService(db);
+    this.recordsRun = this.config.OUTPUTS.includes('sqlite');
   }
 
   /**
@@ -23,43 +53,166 @@ export class ArbitrageFinderService {
   async findArbitragePaths(): Promise<number> {
     console.log('🔍 Starting arbitrage path discovery...');
 
+    if (this.options.resume && !this.config.OUTPUTS.includes('sqlite')) {
+      throw new Error('--resume needs the sqlite output: explored first edges are checkpointed with the stored paths');
+    }
+
     await this.loadDataFromDatabase();
     await this.buildAdjacencyMap();
 
-    const wethToken = await this.findWethToken();
-    await this.validateWethConnections(wethToken);
+    const anchors = new AnchorResolver(this.tokenCache, this.adjMap, this.chain).resolve(this.config.ANCHOR_TOKENS);
+    await this.pruneGraph(anchors);
 
-    console.log(`🚀 Starting WETH arbitrage path discovery...`);
+    console.log(
+      `🚀 Starting arbitrage path discovery on ${this.chain.NAME} for ${anchors.length} anchor token(s), ` +
+      `${this.config.MIN_HOPS}-${this.config.MAX_HOPS} hops, ${this.config.WORKERS} worker(s)...`
+    );
 
-    await this.batchProcessor.initialize();
+    const params = {
+      anchors: anchors.map(anchor => anchor.address),
+      minHops: this.config.MIN_HOPS,
+      maxHops: this.config.MAX_HOPS,
+      minPoolVolumeUsd: this.config.MIN_POOL_VOLUME_USD,
+      collapseParallelPools: this.config.COLLAPSE_PARALLEL_POOLS,
+      pruning: this.pruning
+    };
+
+    if (this.options.delta) {
+      const newEdges = await this.findNewEdges(params);
+      if (newEdges?.length === 0) {
+        console.log('✅ No pools loaded or revived since the last completed run - nothing to search');
+        const emptyRun = await this.startRun(params);
+        await this.finishRun(emptyRun, 'completed');
+        return 0;
+      }
+      this.requiredPools = newEdges ?? [];
+    }
+
+    const run = this.options.resume
+      ? await this.checkpoints.resume(this.chain.CHAIN_ID, params)
+      : await this.startRun(params);
+
+    await this.sink.initialize(run.runId);
 
     try {
-      await this.dfs(
-        wethToken.address,
-        wethToken.address,
-        new Set(),
-        [wethToken.address],
-        []
-      );
+      for (const anchor of anchors) {
+        this.pathsByHops.set(anchor.address, new Map());
+
+        const firstEdges = this.pendingFirstEdges(anchor, run);
+
+        if (this.config.WORKERS > 1) {
+          await this.searchInWorkers(anchor.address, firstEdges);
+        } else {
+          for (const edge of firstEdges) {
+            for (const cycle of CycleSearch.findCycles(
+              this.adjMap, anchor.address, this.searchOptions(), [edge], this.searchStats
+            )) {
+              await this.processArbitragePath(cycle.tokens, cycle.pools);
+            }
+            this.sink.addCheckpoint(anchor.address, edge.pool);
+          }
+        }
+      }
 
-      await this.batchProcessor.finalize();
+      await this.sink.finalize();
+      await this.finishRun(run, 'completed');
 
-      console.log(`✅ WETH arbitrage path discovery completed. Found ${this.pathsFound} total paths.`);
+      console.log(`✅ Arbitrage path discovery completed. Found ${this.pathsFound} total paths.`);
+      this.logPathCounts(anchors);
+      this.logPruningReport();
       return this.pathsFound;
 
     } catch (error) {
-      await this.batchProcessor.cleanup();
+      await this.sink.cleanup();
+      await this.finishRun(run, 'failed');
       throw error;
     }
   }
 
+  /**
+   * Register the run when its paths go to SQLite; file-only runs get an unrecorded run
+   */
+  private async startRun(params: DiscoveryParams): Promise<DiscoveryRun> {
+    return this.recordsRun
+      ? this.checkpoints.start(this.chain.CHAIN_ID, params)
+      : { runId: 0, completed: new Set() };
+  }
+
+  private async finishRun(run: DiscoveryRun, status: DiscoveryRunStatus): Promise<void> {
+    if (this.recordsRun) {
+      await this.checkpoints.finish(run.runId, status);
+    }
+  }
+
+  /**
+   * First edges of the anchor not yet explored in this run
+   */
+  private pendingFirstEdges(anchor: TokenInfo, run: DiscoveryRun): PoolEdge[] {
+    const edges = this.adjMap.get(anchor.address) ?? [];
+    const pending = edges.filter(edge =>
+      !run.completed.has(DiscoveryCheckpointService.edgeKey(anchor.address, edge.pool))
+    );
+
+    if (pending.length < edges.length) {
+      console.log(`⏭️  ${anchor.symbol}: skipping ${edges.length - pending.length} of ${edges.length} first edges explored before`);
+    }
+    return pending;
+  }
+
+  /**
+   * Edges of the search graph with a pool first loaded (or revived from stale) after the load run
+   * covered by the last completed discovery run with the same parameters; null when there is no such run
+   */
+  private async findNewEdges(params: DiscoveryParams): Promise<string[] | null> {
+    const coveredLoadRun = await this.checkpoints.lastCoveredLoadRun(this.chain.CHAIN_ID, params);
+    if (coveredLoadRun === undefined) {
+      console.log('ℹ️  No completed discovery run with these settings - searching the full graph');
+      return null;
+    }
+
+    const isNew = (pool: PoolInfo) => this.arrivalLoadRun(pool) > coveredLoadRun;
+    const newEdges = new Set<string>();
+    let newPools = 0;
+
+    for (const edges of this.adjMap.values()) {
+      for (const edge of edges) {
+        if (newEdges.has(edge.pool)) continue;
+        const edgePools = this.parallelGroups.get(edge.pool) ?? [this.poolCache.get(edge.pool)!];
+        const added = edgePools.filter(isNew).length;
+        if (added > 0) {
+          newEdges.add(edge.pool);
+          newPools += added;
+        }
+      }
+    }
+
+    if (newPools > 0) {
+      console.log(`🆕 ${newPools} pools loaded or revived after load run #${coveredLoadRun}: searching only cycles through them`);
+    }
+    return Array.from(newEdges);
+  }
+
+  /**
+   * Load run a pool became usable in: its first load, or the load that found it again after it went stale
+   */
+  private arrivalLoadRun(pool: PoolInfo): number {
+    return Math.max(pool.first_load_run_id ?? 0, pool.revived_load_run_id ?? 0);
+  }
+
   /**
    * Load required data from database
    */
   private async loadDataFromDatabase(): Promise<void> {
     const [pools, tokens] = await Promise.all([
-      this.db.all<PoolInfo[]>('SELECT * FROM tbl_dex_pool'),
-      this.db.all<TokenInfo[]>('SELECT address, symbol FROM tbl_dex_token')
+      this.db.all<PoolInfo[]>(`
+        SELECT * FROM tbl_dex_pool
+        WHERE chain_id = ? AND is_stale = 0 AND (volume_usd IS NULL OR volume_usd >= ?)
+        ORDER BY volume_usd DESC
+      `, [this.chain.CHAIN_ID, this.config.MIN_POOL_VOLUME_USD]),
+      this.db.all<TokenInfo[]>(
+        'SELECT address, symbol, total_liquidity FROM tbl_dex_token WHERE chain_id = ?',
+        [this.chain.CHAIN_ID]
+      )
     ]);
 
     console.log(`📊 Loaded ${pools.length} pools and ${tokens.length} tokens`);
@@ -80,8 +233,14 @@ export class ArbitrageFinderService {
   /**
    * Build adjacency map for graph traversal
    */
-  private async buildAdjacencyMap(): Promise<void> {
-    const pools = Array.from(this.poolCache.values());
+  private async buildAdjacencyMap(pools: PoolInfo[] = Array.from(this.poolCache.values())): Promise<void> {
+    this.adjMap.clear();
+    this.parallelGroups.clear();
+
+    if (this.config.COLLAPSE_PARALLEL_POOLS) {
+      this.buildCollapsedAdjacencyMap(pools);
+      return;
+    }
 
     for (const pool of pools) {
       // Initialize arrays if they don't exist
@@ -107,88 +266,120 @@ export class ArbitrageFinderService {
   }
 
   /**
-   * Find WETH token in database
+   * One edge per token pair: parallel pools (other DEXes, fee tiers) become a single edge keyed
+   * by the pair, a pair with one pool keeps the pool address as its edge
    */
-  private async findWethToken(): Promise<TokenInfo> {
-    console.log(`🎯 Looking for WETH token at address: ${ARBITRAGE_CONFIG.WETH_ADDRESS}`);
-
-    const tokens = await this.db.all<TokenInfo[]>('SELECT address, symbol FROM tbl_dex_token');
-
-    let wethToken = tokens.find(token =>
-      token.address.toLowerCase() === ARBITRAGE_CONFIG.WETH_ADDRESS
-    );
-
-    // Fallback: try to find by symbol
-    if (!wethToken) {
-      console.warn(`⚠️  WETH not found at expected address: ${ARBITRAGE_CONFIG.WETH_ADDRESS}`);
-      console.log('🔍 Trying to find WETH by symbol...');
+  private buildCollapsedAdjacencyMap(pools: PoolInfo[]): void {
+    const byPair = new Map<string, PoolInfo[]>();
+    for (const pool of pools) {
+      const pairKey = [pool.token0, pool.token1].sort().join('/');
+      if (!byPair.has(pairKey)) byPair.set(pairKey, []);
+      byPair.get(pairKey)!.push(pool);
+    }
 
-      wethToken = tokens.find(token =>
-        token.symbol && token.symbol.toLowerCase() === 'weth'
-      );
+    for (const [pairKey, pairPools] of byPair) {
+      const [tokenA, tokenB] = pairKey.split('/');
+      let edgeId = pairPools[0].pool_address;
+      let poolCount: number | undefined;
 
-      if (wethToken) {
-        console.log(`✅ Found WETH by symbol: ${wethToken.symbol} at ${wethToken.address}`);
+      if (pairPools.length > 1) {
+        edgeId = pairKey;
+        poolCount = pairPools.length;
+        pairPools.sort((a, b) => (b.volume_usd ?? -1) - (a.volume_usd ?? -1) || a.pool_address.localeCompare(b.pool_address));
+        this.parallelGroups.set(pairKey, pairPools);
       }
-    }
 
-    if (!wethToken) {
-      throw new Error('WETH token not found in database - ensure WETH token data is loaded');
+      if (!this.adjMap.has(tokenA)) this.adjMap.set(tokenA, []);
+      if (!this.adjMap.has(tokenB)) this.adjMap.set(tokenB, []);
+      this.adjMap.get(tokenA)!.push({ pool: edgeId, toToken: tokenB, poolCount });
+      this.adjMap.get(tokenB)!.push({ pool: edgeId, toToken: tokenA, poolCount });
     }
 
-    return wethToken;
+    console.log(`🔗 Adjacency map constructed: ${pools.length} pools collapsed into ${byPair.size} edges`);
+  }
+
+  private searchOptions(): CycleSearchOptions {
+    return {
+      minHops: this.config.MIN_HOPS,
+      maxHops: this.config.MAX_HOPS,
+      requiredTokens: this.requiredTokens,
+      requiredPools: this.requiredPools
+    };
   }
 
   /**
-   * Validate WETH has pool connections
+   * Apply the pruning rules and rebuild the adjacency map from the remaining pools
    */
-  private async validateWethConnections(wethToken: TokenInfo): Promise<void> {
-    const wethConnections = this.adjMap.get(wethToken.address);
+  private async pruneGraph(anchors: TokenInfo[]): Promise<void> {
+    const pruner = new GraphPruner(this.pruning, this.tokenCache);
+    const allPools = Array.from(this.poolCache.values());
+    const { pools, report } = pruner.prune(allPools, new Set(anchors.map(anchor => anchor.address)));
 
-    if (!wethConnections || wethConnections.length === 0) {
-      throw new Error('WETH token has no liquidity pools - cannot find arbitrage paths');
-    }
+    this.pruningReport = report;
+    this.requiredTokens = Array.from(pruner.resolveTokens(this.pruning.REQUIRED_TOKENS));
 
-    console.log(`🎯 Found WETH token: ${wethToken.symbol} at ${wethToken.address}`);
-    console.log(`🔗 WETH has ${wethConnections.length} pool connections`);
+    if (report.length > 0) {
+      await this.buildAdjacencyMap(pools);
+      console.log(`✂️  Pruning kept ${pools.length} of ${allPools.length} pools`);
+    }
   }
 
   /**
-   * Depth-First Search for arbitrage cycles
+   * Search cycles through the anchor in worker threads, partitioned by the anchor's first edge.
+   * Workers only enumerate cycles; this thread is the single writer and acknowledges each chunk
+   * once it is queued, so a slow writer pauses the workers instead of buffering results.
+   * Finished first edges are checkpointed in the order their cycles were queued.
    */
-  private async dfs(
-    start: string,
-    current: string,
-    visitedPools: Set<string>,
-    pathTokens: string[],
-    pathPools: string[]
-  ): Promise<void> {
-    if (pathTokens.length > ARBITRAGE_CONFIG.MAX_DEPTH) return;
-
-    if (current == ARBITRAGE_CONFIG.WETH_ADDRESS &&
-      pathTokens.length > 1 &&
-      pathTokens.length < ARBITRAGE_CONFIG.MAX_DEPTH) {
-      return;
-    }
-
-    const edges = this.adjMap.get(current);
-    if (!edges) return;
-
-    for (const { pool, toToken } of edges) {
-      if (visitedPools.has(pool)) continue;
-
-      const newVisitedPools = new Set(visitedPools);
-      newVisitedPools.add(pool);
-
-      const newPathTokens = [...pathTokens, toToken];
-      const newPathPools = [...pathPools, pool];
+  private async searchInWorkers(anchor: string, anchorEdges: PoolEdge[]): Promise<void> {
+    if (anchorEdges.length === 0) return;
+
+    const workerCount = Math.min(this.config.WORKERS, anchorEdges.length);
+    const partitions: PoolEdge[][] = Array.from({ length: workerCount }, () => []);
+    anchorEdges.forEach((edge, i) => partitions[i % workerCount].push(edge));
+
+    // Running from TypeScript sources (ts-node) the worker needs the ts-node loader too
+    const extension = path.extname(__filename);
+    const workerFile = path.join(__dirname, '..', 'workers', `cycle-search-worker${extension}`);
+    const execArgv = extension === '.ts' ? ['-r', require.resolve('ts-node/register')] : [];
+
+    let writes: Promise<void> = Promise.resolve();
+    const workers: Worker[] = [];
+
+    const runPartition = (firstEdges: PoolEdge[]) => new Promise<void>((resolve, reject) => {
+      const task: CycleSearchTask = { adjMap: this.adjMap, anchor, firstEdges, options: this.searchOptions() };
+      const worker = new Worker(workerFile, { workerData: task, execArgv });
+      workers.push(worker);
+
+      worker.on('message', (message: CycleWorkerMessage) => {
+        if (message.type === 'done') {
+          this.searchStats.rejectedCycles += message.stats.rejectedCycles;
+          resolve();
+          return;
+        }
+
+        if (message.type === 'edgeDone') {
+          writes = writes.then(() => this.sink.addCheckpoint(anchor, message.firstPool));
+        } else {
+          writes = writes.then(async () => {
+            for (const cycle of message.cycles) {
+              await this.processArbitragePath(cycle.tokens, cycle.pools);
+            }
+            worker.postMessage('ack');
+          });
+        }
+        writes.catch(reject);
+      });
+      worker.on('error', reject);
+      worker.on('exit', code => {
+        if (code !== 0) reject(new Error(`Cycle search worker stopped with exit code ${code}`));
+      });
+    });
 
-      if (toToken === start && newPathTokens.length >= ARBITRAGE_CONFIG.MIN_DEPTH + 1) {
-        // Found valid arbitrage cycle
-        await this.processArbitragePath(newPathTokens, newPathPools);
-      } else {
-        await this.dfs(start, toToken, newVisitedPools, newPathTokens, newPathPools);
-      }
+    try {
+      await Promise.all(partitions.map(runPartition));
+      await writes;
+    } finally {
+      await Promise.all(workers.map(worker => worker.terminate()));
     }
   }
 
@@ -210,18 +401,83 @@ export class ArbitrageFinderService {
 
     const swapPath = symbols.join('-');
 
+    const collapsed = pathPools.some(edge => this.parallelGroups.has(edge));
+    const canonical = CycleUtils.canonicalize(pathTokens, pathPools);
+    const cycleKey = collapsed ? CycleUtils.collapsedKey(canonical.cycleKey) : canonical.cycleKey;
+    const direction = canonical.direction;
+
+    // Collapsed hops store their best pool on the step and every parallel pool as a candidate;
+    // a round trip through one group uses its best pool out and the next best back
+    const candidates = pathPools.map(edge => this.parallelGroups.get(edge) ?? [this.poolCache.get(edge)!]);
+    const hopPools = candidates.map((hopCandidates, i) =>
+      hopCandidates[pathPools.slice(0, i).filter(edge => edge === pathPools[i]).length]
+    );
+
     const arbitragePath: ArbitragePath = {
+      anchorToken: pathTokens[0],
+      cycleKey,
+      direction,
       tokens: pathTokens,
-      pools: pathPools,
+      pools: hopPools.map(pool => pool.pool_address),
+      poolIds: hopPools.map(pool => pool.id),
+      candidates: collapsed ? candidates : undefined,
+      loadRunId: Math.max(0, ...candidates.flat().map(pool => this.arrivalLoadRun(pool))) || null,
       length,
       swapPath
     };
 
-    await this.batchProcessor.addPath(arbitragePath, this.poolCache);
+    await this.sink.addPath(arbitragePath, this.poolCache);
     this.pathsFound++;
 
+    const byHops = this.pathsByHops.get(arbitragePath.anchorToken)!;
+    byHops.set(length, (byHops.get(length) ?? 0) + 1);
+
     if (this.pathsFound % 1000 === 0) {
-      console.log(`📈 Found ${this.pathsFound} WETH arbitrage paths so far...`);
+      console.log(`📈 Found ${this.pathsFound} arbitrage paths so far...`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Report paths found per anchor token and hop count
+   */
+  private logPathCounts(anchors: TokenInfo[]): void {
+    const rows = anchors.map(anchor => {
+      const byHops = this.pathsByHops.get(anchor.address)!;
+      const row: Record<string, string | number> = { anchor: anchor.symbol };
+      let total = 0;
+
+      for (let hops = this.config.MIN_HOPS; hops <= this.config.MAX_HOPS; hops++) {
+        const count = byHops.get(hops) ?? 0;
+        row[`${hops} hops`] = count;
+        total += count;
+      }
+
+      row.total = total;
+      return row;
+    });
+
+    console.log('\n📊 Paths per anchor and cycle length:');
+    console.table(rows);
+  }
+
+  /**
+   * Report how much each pruning rule removed
+   */
+  private logPruningReport(): void {
+    const rows: Array<{ rule: string, removed: number, unit: string }> =
+      this.pruningReport.map(({ rule, removed }) => ({ rule, removed, unit: 'pools' }));
+
+    if (this.requiredTokens.length > 0) {
+      rows.push({
+        rule: `requiredTokens (${this.pruning.REQUIRED_TOKENS.join(', ')})`,
+        removed: this.searchStats.rejectedCycles,
+        unit: 'cycles'
+      });
+    }
+
+    if (rows.length === 0) return;
+
+    console.log('\n✂️  Pruning rules:');
+    console.table(rows);
+  }
+}
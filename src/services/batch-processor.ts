@@ -1,34 +1,54 @@
 import { Database } from 'sqlite';
-import { ArbitragePath, PoolInfo } from '../types';
-import { BATCH_CONFIG } from '../config/constants';
+import { ArbitragePath, PathSink, PoolInfo } from '../types';
+import { getConfig } from '../config/config-manager';
+import { SwapUtils } from '../utils/swap-utils';
+import { DiscoveryCheckpointService } from './discovery-checkpoint';
 
 /**
- * Service for batch processing arbitrage paths and steps
+ * Service for batch processing arbitrage paths and steps - the SQLite path sink
  */
-export class BatchProcessor {
+export class BatchProcessor implements PathSink {
+  readonly type = 'sqlite' as const;
   private pathBatch: ArbitragePath[] = [];
   private isFlushingBatch = false;
   private flushInterval: NodeJS.Timeout | null = null;
-
-  constructor(private db: Database) {}
+  private cycleIds = new Map<string, number>();
+  private pathsInserted = 0;
+  private pathsExisting = 0;
+  private runId: number | null = null;
+  /** Explored first edges, saved with the flush that stores the paths queued before them */
+  private pendingCheckpoints: Array<{ anchor: string, firstPool: string }> = [];
+  private currentFlush: Promise<void> | null = null;
+  private checkpoints: DiscoveryCheckpointService;
+  /** Pools by address, for the direction, fee and DEX type of each step */
+  private poolCache = new Map<string, PoolInfo>();
+
+  constructor(private db: Database) {
+    this.checkpoints = new DiscoveryCheckpointService(db);
+  }
 
   /**
-   * Initialize batch processor with periodic flushing
+   * Initialize batch processor with periodic flushing; checkpoints are recorded for runId
    */
-  async initialize(): Promise<void> {
+  async initialize(runId: number | null = null): Promise<void> {
     this.pathBatch = [];
+    this.pendingCheckpoints = [];
+    this.runId = runId;
     this.isFlushingBatch = false;
+    this.cycleIds.clear();
+    this.pathsInserted = 0;
+    this.pathsExisting = 0;
 
     // Setup periodic batch flushing
     this.flushInterval = setInterval(async () => {
-      if (!this.isFlushingBatch && this.pathBatch.length > 0) {
+      if (!this.isFlushingBatch && (this.pathBatch.length > 0 || this.pendingCheckpoints.length > 0)) {
         try {
           await this.flushBatches();
         } catch (error) {
           console.error('❌ Error in periodic flush:', error);
         }
       }
-    }, BATCH_CONFIG.FLUSH_INTERVAL_MS);
+    }, getConfig().batch.FLUSH_INTERVAL_MS);
 
     console.log('✅ Batch processor initialized');
   }
@@ -37,20 +57,30 @@ export class BatchProcessor {
    * Add arbitrage path to batch
    */
   async addPath(path: ArbitragePath, poolCache: Map<string, PoolInfo>): Promise<void> {
+    this.poolCache = poolCache;
     this.pathBatch.push(path);
 
     // Log first few paths for verification
     if (this.pathBatch.length <= 5) {
-      console.log(`✅ WETH Arbitrage Path ${this.pathBatch.length}: ${path.swapPath}`);
+      console.log(`✅ Arbitrage Path ${this.pathBatch.length}: ${path.swapPath}`);
     }
 
     // Check if batch needs flushing
-    if (!this.isFlushingBatch && this.pathBatch.length >= BATCH_CONFIG.PATHS_BATCH_SIZE) {
+    if (!this.isFlushingBatch && this.pathBatch.length >= getConfig().batch.PATHS_BATCH_SIZE) {
       console.log(`💾 Batch full (${this.pathBatch.length} paths), processing...`);
       await this.flushBatches();
     }
   }
 
+  /**
+   * Mark a first edge of an anchor as fully explored once all paths added so far are stored
+   */
+  addCheckpoint(anchor: string, firstPool: string): void {
+    if (this.runId !== null) {
+      this.pendingCheckpoints.push({ anchor, firstPool });
+    }
+  }
+
   /**
    * Finalize batch processing
    */
@@ -61,13 +91,18 @@ export class BatchProcessor {
       this.flushInterval = null;
     }
 
+    // A periodic flush may still be running; wait for it so nothing queued after its snapshot is skipped
+    if (this.currentFlush) {
+      await this.currentFlush;
+    }
+
     // Final flush of remaining batches
-    if (this.pathBatch.length > 0) {
+    if (this.pathBatch.length > 0 || this.pendingCheckpoints.length > 0) {
       console.log(`🔄 Final batch flush (${this.pathBatch.length} remaining paths)...`);
       await this.flushBatches(true);
     }
 
-    console.log('✅ Batch processor finalized');
+    console.log(`✅ Batch processor finalized: ${this.pathsInserted} new paths, ${this.pathsExisting} already stored`);
   }
 
   /**
@@ -90,38 +125,79 @@ export class BatchProcessor {
       return;
     }
 
-    if (this.pathBatch.length === 0 && !forceFlush) return;
+    if (this.pathBatch.length === 0 && this.pendingCheckpoints.length === 0 && !forceFlush) return;
 
     // Acquire mutex
     this.isFlushingBatch = true;
+    this.currentFlush = this.writeBatch();
 
     try {
-      const batchStartTime = Date.now();
-      const pathCount = this.pathBatch.length;
+      await this.currentFlush;
+    } finally {
+      // Always release mutex
+      this.currentFlush = null;
+      this.isFlushingBatch = false;
+    }
+  }
 
-      if (pathCount === 0) {
-        console.log('📭 No paths to flush');
-        return;
-      }
+  /**
+   * Write the queued paths, their steps and checkpoints in one transaction
+   */
+  private async writeBatch(): Promise<void> {
+    // Take the queues: paths added while this flush runs go to the next one
+    const batch = this.pathBatch;
+    const checkpoints = this.pendingCheckpoints;
+    this.pathBatch = [];
+    this.pendingCheckpoints = [];
 
-      console.log(`💾 Flushing ${pathCount} paths to database...`);
+    const batchStartTime = Date.now();
+    const pathCount = batch.length;
 
-      await this.db.run('BEGIN TRANSACTION');
+    if (pathCount === 0 && checkpoints.length === 0) {
+      console.log('📭 No paths to flush');
+      return;
+    }
 
+    console.log(`💾 Flushing ${pathCount} paths to database...`);
+
+    await this.db.run('BEGIN TRANSACTION');
+
+    try {
       const stepInserts: any[] = [];
+      const candidateInserts: any[] = [];
+      const chainId = getConfig().chain.CHAIN_ID;
+
+      // Insert paths and collect steps; a path already stored for its cycle, anchor and direction is kept
+      for (const path of batch) {
+        const cycleId = await this.getCycleId(chainId, path);
+
+        // An invalidated copy is replaced so its steps reference the current pools again
+        await this.db.run(
+          `DELETE FROM tbl_dex_arbitrage_path
+           WHERE cycle_id = ? AND anchor_token = ? AND direction = ? AND invalidated_at IS NOT NULL`,
+          [cycleId, path.anchorToken, path.direction]
+        );
 
-      // Insert paths and collect steps
-      for (const path of this.pathBatch) {
         const pathResult = await this.db.run(
-          `INSERT INTO tbl_dex_arbitrage_path (length, swap_path) VALUES (?, ?)`,
-          [path.length, path.swapPath]
+          `INSERT INTO tbl_dex_arbitrage_path (chain_id, cycle_id, anchor_token, direction, length, swap_path, load_run_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(cycle_id, anchor_token, direction) DO NOTHING`,
+          [chainId, cycleId, path.anchorToken, path.direction, path.length, path.swapPath, path.loadRunId]
         );
 
+        if (!pathResult.changes) {
+          this.pathsExisting++;
+          candidateInserts.push(...await this.refreshCandidates(cycleId, path));
+          continue;
+        }
+        this.pathsInserted++;
+
         const realPathId = pathResult.lastID ?? 0;
 
         // Generate steps for this path
         const steps = this.generateStepsForPath(path, realPathId);
         stepInserts.push(...steps);
+        candidateInserts.push(...this.generateCandidatesForPath(path, realPathId));
       }
 
       // Insert all steps in batch
@@ -129,50 +205,111 @@ export class BatchProcessor {
         await this.insertStepsBatch(stepInserts);
       }
 
+      if (candidateInserts.length > 0) {
+        await this.insertCandidatesBatch(candidateInserts);
+      }
+
+      if (this.runId !== null && checkpoints.length > 0) {
+        await this.checkpoints.saveCheckpoints(this.runId, checkpoints);
+      }
+
       await this.db.run('COMMIT');
 
       const batchEndTime = Date.now();
       console.log(`✅ Batch flush completed: ${pathCount} paths, ${stepInserts.length} steps in ${batchEndTime - batchStartTime}ms`);
 
-      // Clear batch
-      this.pathBatch.length = 0;
-
     } catch (error) {
       await this.db.run('ROLLBACK');
       console.error(`❌ Error during batch flush:`, error);
       throw error;
-    } finally {
-      // Always release mutex
-      this.isFlushingBatch = false;
     }
   }
 
+  /**
+   * Id of the path's canonical cycle, creating the cycle on first sight
+   */
+  private async getCycleId(chainId: number, path: ArbitragePath): Promise<number> {
+    const cached = this.cycleIds.get(path.cycleKey);
+    if (cached !== undefined) return cached;
+
+    await this.db.run(
+      `INSERT OR IGNORE INTO tbl_dex_arbitrage_cycle (chain_id, cycle_key, length) VALUES (?, ?, ?)`,
+      [chainId, path.cycleKey, path.length]
+    );
+    const cycle = await this.db.get<{ id: number }>(
+      `SELECT id FROM tbl_dex_arbitrage_cycle WHERE chain_id = ? AND cycle_key = ?`,
+      [chainId, path.cycleKey]
+    );
+
+    this.cycleIds.set(path.cycleKey, cycle!.id);
+    return cycle!.id;
+  }
+
   /**
    * Generate steps for a given arbitrage path
    */
   private generateStepsForPath(path: ArbitragePath, pathId: number): any[] {
-    const steps: any[] = [];
-    const length = path.tokens.length - 1;
-
-    for (let i = 0; i < length; i++) {
-      const fromToken = path.tokens[i];
-      const toToken = path.tokens[i + 1];
-      const poolAddress = path.pools[i];
-
-      // Determine swap direction (simplified - could be enhanced)
-      const isForward = true; // This could be determined by token ordering in pool
-
-      steps.push([
-        pathId,
-        i,
-        poolAddress,
-        fromToken,
-        toToken,
-        isForward ? 1 : 0
-      ]);
+    return SwapUtils.pathSteps(path, this.poolCache).map(step => [
+      pathId,
+      step.stepIndex,
+      step.poolId,
+      step.poolAddress,
+      step.fromToken,
+      step.toToken,
+      step.zeroForOne ? 1 : 0,
+      step.zeroForOne ? 1 : 0,
+      step.feeBps,
+      step.dexType
+    ]);
+  }
+
+  /**
+   * Generate candidate pool rows for the collapsed hops of a path
+   */
+  private generateCandidatesForPath(path: ArbitragePath, pathId: number): any[] {
+    if (!path.candidates) return [];
+
+    const candidates: any[] = [];
+    path.candidates.forEach((hopCandidates, stepIndex) => {
+      if (hopCandidates.length < 2) return;
+      hopCandidates.forEach((pool, rank) => {
+        candidates.push([pathId, stepIndex, pool.id, pool.pool_address, rank]);
+      });
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Candidate rows replacing those of an already stored collapsed path, so pools that joined
+   * one of its parallel groups since it was stored are listed
+   */
+  private async refreshCandidates(cycleId: number, path: ArbitragePath): Promise<any[]> {
+    if (!path.candidates) return [];
+
+    const stored = await this.db.get<{ id: number }>(
+      `SELECT id FROM tbl_dex_arbitrage_path WHERE cycle_id = ? AND anchor_token = ? AND direction = ?`,
+      [cycleId, path.anchorToken, path.direction]
+    );
+    await this.db.run(`DELETE FROM tbl_dex_arbitrage_step_candidate WHERE path_id = ?`, [stored!.id]);
+    return this.generateCandidatesForPath(path, stored!.id);
+  }
+
+  /**
+   * Insert step candidates in batch using prepared statement
+   */
+  private async insertCandidatesBatch(candidateInserts: any[]): Promise<void> {
+    const candidateStmt = await this.db.prepare(`
+      INSERT INTO tbl_dex_arbitrage_step_candidate
+      (path_id, step_index, pool_id, pool_address, rank)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    for (const candidateParams of candidateInserts) {
+      await candidateStmt.run(candidateParams);
     }
 
-    return steps;
+    await candidateStmt.finalize();
   }
 
   /**
@@ -181,8 +318,8 @@ export class BatchProcessor {
   private async insertStepsBatch(stepInserts: any[]): Promise<void> {
     const stepStmt = await this.db.prepare(`
       INSERT INTO tbl_dex_arbitrage_step
-      (path_id, step_index, pool_address, from_token, to_token, is_forward)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (path_id, step_index, pool_id, pool_address, from_token, to_token, is_forward, zero_for_one, fee_bps, dex_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     for (const stepParams of stepInserts) {
@@ -1,108 +1,206 @@
 import fs from 'fs';
 import path from 'path';
 import { Database } from 'sqlite';
-import { DexFile, Pair } from '../types';
-import { DATA_CONFIG } from '../config/constants';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json';
+import { pick } from 'stream-json/filters/Pick';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+import { DexSourceAdapter, LoadContext, LoadOptions, Pair, QuarantineReason } from '../types';
+import { getConfig } from '../config/config-manager';
+import { DexAdapterRegistry } from '../adapters/adapter-registry';
+import { PoolBatchWriter } from './pool-batch-writer';
+import { LoadRunTracker } from './load-run-tracker';
+import { PoolRecordValidator } from './pool-validator';
+import { QuarantineService } from './quarantine-service';
 
 /**
  * Service for loading DEX pool data from JSON files into database
  */
 export class DataLoaderService {
-  constructor(private db: Database) {}
+  private runTracker: LoadRunTracker;
+  private validator = new PoolRecordValidator();
+  private quarantine: QuarantineService;
+
+  constructor(
+    private db: Database,
+    private adapters: DexAdapterRegistry = DexAdapterRegistry.createDefault()
+  ) {
+    this.runTracker = new LoadRunTracker(db);
+    this.quarantine = new QuarantineService(db, adapters);
+  }
 
   /**
-   * Load all DEX pool data from JSON files
+   * Load all DEX pool data from JSON files.
+   * In incremental mode existing rows are upserted and pools missing from the
+   * loaded DEX types are marked stale.
    */
-  async loadAllPoolData(): Promise<void> {
-    console.log('📂 Loading DEX pool data from JSON files...');
+  async loadAllPoolData(options: LoadOptions = { mode: 'insert' }): Promise<void> {
+    const { chain, data } = getConfig();
+    const dataFolder = data.JSON_FOLDER;
+    console.log(`📂 Loading ${chain.NAME} DEX pool data from JSON files (${options.mode} mode)...`);
+
+    if (!fs.existsSync(dataFolder) || !fs.statSync(dataFolder).isDirectory()) {
+      throw new Error(`Data folder not found: ${dataFolder} (set dataFolder in the config file, DEX_DATA_FOLDER or --data-folder)`);
+    }
 
-    const files = fs.readdirSync(DATA_CONFIG.JSON_FOLDER)
+    const files = fs.readdirSync(dataFolder)
       .filter(f => f.endsWith('.json'));
 
     console.log(`📊 Found ${files.length} JSON files to process`);
 
-    for (const file of files) {
-      await this.loadPoolDataFromFile(file);
-    }
+    // Resolve every adapter up front so an unknown file fails before anything is written
+    const sources = files.map(file => ({ file, adapter: this.adapters.resolve(file) }));
 
-    console.log('✅ All pool data loaded successfully');
-  }
+    const runId = await this.runTracker.start(options.mode, files.length, chain.CHAIN_ID);
 
-  /**
-   * Load pool data from a single JSON file
-   */
-  private async loadPoolDataFromFile(fileName: string): Promise<void> {
-    const dexType = this.extractDexTypeFromFile(fileName);
-    const filePath = path.join(DATA_CONFIG.JSON_FOLDER, fileName);
-    
-    console.log(`📄 Processing file: ${fileName} (${dexType})`);
-
-    const raw = fs.readFileSync(filePath, 'utf-8');
-    const json: DexFile = JSON.parse(raw);
-
-    const pairs = dexType === 'uniswapV3' ? json.data.pools : json.data.pairs;
-    if (!pairs) {
-      console.warn(`⚠️  No pairs/pools found in ${fileName}`);
-      return;
+    try {
+      for (const { file, adapter } of sources) {
+        const snapshotAt = fs.statSync(path.join(dataFolder, file)).mtime.toISOString();
+        await this.loadPoolDataFromFile(file, adapter, {
+          runId,
+          chainId: chain.CHAIN_ID,
+          mode: options.mode,
+          sourceFile: file,
+          snapshotAt
+        });
+      }
+
+      let removed = new Map<string, number>();
+      if (options.mode === 'incremental') {
+        const dexTypes = Array.from(new Set(sources.map(s => s.adapter.dexType)));
+        removed = await this.runTracker.markStalePools(runId, chain.CHAIN_ID, dexTypes);
+      }
+
+      const summary = await this.runTracker.summarize(runId, removed);
+      this.runTracker.logSummary(runId, summary);
+
+      await this.runTracker.finish(runId, 'completed');
+    } catch (error) {
+      await this.runTracker.finish(runId, 'failed');
+      throw error;
     }
 
-    await this.insertPairsData(pairs, dexType);
-    console.log(`✅ Processed ${pairs.length} pairs from ${fileName}`);
+    console.log('✅ All pool data loaded successfully');
   }
 
   /**
-   * Insert pairs data into database
+   * Stream pool data from a single JSON file, one record at a time
    */
-  private async insertPairsData(pairs: Pair[], dexType: string): Promise<void> {
-    // Begin transaction for better performance
+  private async loadPoolDataFromFile(
+    fileName: string,
+    adapter: DexSourceAdapter,
+    context: LoadContext
+  ): Promise<void> {
+    const filePath = path.join(getConfig().data.JSON_FOLDER, fileName);
+    const fileSize = fs.statSync(filePath).size;
+
+    console.log(`📄 Processing file: ${fileName} (${adapter.dexType})`);
+
+    const startTime = Date.now();
+    let recordCount = 0;
+    let skippedCount = 0;
+    let quarantinedCount = 0;
+    const writer = new PoolBatchWriter(this.db, adapter, context, async (raw, poolAddress) => {
+      await this.quarantineRecord(context, adapter, raw, 'DUPLICATE_POOL', `pool ${poolAddress} already seen in this load run`);
+      quarantinedCount++;
+    });
+
     await this.db.run('BEGIN TRANSACTION');
 
     try {
-      for (const pair of pairs) {
-        await this.insertTokens(pair);
-        await this.insertPool(pair, dexType);
+      const records = chain([
+        fs.createReadStream(filePath),
+        parser(),
+        pick({ filter: `data.${adapter.collectionKey}` }),
+        streamArray()
+      ]);
+
+      for await (const { value } of records) {
+        recordCount++;
+
+        let pair: Pair | null;
+        try {
+          pair = adapter.parseRecord(value);
+        } catch (error) {
+          await this.quarantineRecord(context, adapter, value, 'MALFORMED_RECORD', (error as Error).message);
+          quarantinedCount++;
+          continue;
+        }
+
+        if (!pair) {
+          skippedCount++;
+          continue;
+        }
+
+        const validation = this.validator.validate(pair, adapter);
+        if (!validation.valid) {
+          await this.quarantineRecord(context, adapter, value, validation.reason, validation.detail);
+          quarantinedCount++;
+          continue;
+        }
+
+        await writer.add(validation.pair, value);
       }
 
+      await writer.close();
       await this.db.run('COMMIT');
     } catch (error) {
+      await writer.close().catch(() => undefined);
       await this.db.run('ROLLBACK');
       throw error;
     }
-  }
 
-  /**
-   * Insert token data (ignore duplicates)
-   */
-  private async insertTokens(pair: Pair): Promise<void> {
-    // Insert token0
-    await this.db.run(
-      `INSERT OR IGNORE INTO tbl_dex_token (address, name, symbol, decimal) VALUES (?, ?, ?, ?)`,
-      [pair.token0.id, pair.token0.name, pair.token0.symbol, pair.token0.decimals]
-    );
+    if (recordCount === 0) {
+      console.warn(`⚠️  No data.${adapter.collectionKey} records found in ${fileName}`);
+      return;
+    }
 
-    // Insert token1
-    await this.db.run(
-      `INSERT OR IGNORE INTO tbl_dex_token (address, name, symbol, decimal) VALUES (?, ?, ?, ?)`,
-      [pair.token1.id, pair.token1.name, pair.token1.symbol, pair.token1.decimals]
-    );
+    if (quarantinedCount > 0) {
+      console.warn(`⚠️  ${quarantinedCount} invalid records from ${fileName} moved to quarantine`);
+    }
+
+    this.logThroughput(fileName, writer.processed, writer.written, skippedCount, fileSize, Date.now() - startTime);
   }
 
   /**
-   * Insert pool data
+   * Store a rejected record in the quarantine table
    */
-  private async insertPool(pair: Pair, dexType: string): Promise<void> {
-    const feeTier = dexType !== 'uniswapV3' ? '3000' : pair.feeTier;
-    
-    await this.db.run(
-      `INSERT OR IGNORE INTO tbl_dex_pool (dex_type, pool_address, fee_tier, token0, token1) VALUES (?, ?, ?, ?, ?)`,
-      [dexType, pair.id, feeTier, pair.token0.id, pair.token1.id]
-    );
+  private async quarantineRecord(
+    context: LoadContext,
+    adapter: DexSourceAdapter,
+    raw: unknown,
+    reason: QuarantineReason,
+    detail: string
+  ): Promise<void> {
+    await this.quarantine.add({
+      runId: context.runId,
+      chainId: context.chainId,
+      dexType: adapter.dexType,
+      sourceFile: context.sourceFile,
+      reason,
+      detail,
+      raw
+    });
   }
 
   /**
-   * Extract DEX type from filename (e.g., "uniswapV3-10.json" → "uniswapV3")
+   * Report per-file ingestion throughput
    */
-  private extractDexTypeFromFile(fileName: string): string {
-    return fileName.split('-')[0];
+  private logThroughput(
+    fileName: string,
+    processed: number,
+    written: number,
+    skipped: number,
+    bytes: number,
+    elapsedMs: number
+  ): void {
+    const seconds = Math.max(elapsedMs, 1) / 1000;
+    const megabytes = bytes / (1024 * 1024);
+
+    console.log(
+      `✅ Processed ${processed} pairs from ${fileName} (${written} pools written` +
+      (skipped > 0 ? `, ${skipped} unsupported records skipped` : '') +
+      `) in ${seconds.toFixed(2)}s - ${Math.round(processed / seconds)} pairs/s processed, ${(megabytes / seconds).toFixed(2)} MB/s`
+    );
   }
-}
\ No newline at end of file
+}
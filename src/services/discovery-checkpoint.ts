@@ -0,0 +1,98 @@
+import { Database } from 'sqlite';
+import { DiscoveryParams, DiscoveryRun, DiscoveryRunStatus } from '../types';
+
+/**
+ * Tracks discovery runs and which first edges of each anchor have been fully explored and stored
+ */
+export class DiscoveryCheckpointService {
+  constructor(private db: Database) {}
+
+  /**
+   * Register a new discovery run; it covers the pools of the chain's latest completed load run
+   */
+  async start(chainId: number, params: DiscoveryParams): Promise<DiscoveryRun> {
+    const result = await this.db.run(
+      `INSERT INTO tbl_dex_discovery_run (chain_id, params_json, load_run_id)
+       VALUES (?, ?, (SELECT MAX(id) FROM tbl_dex_load_run WHERE chain_id = ? AND status = 'completed'))`,
+      [chainId, JSON.stringify(params), chainId]
+    );
+    return { runId: result.lastID ?? 0, completed: new Set() };
+  }
+
+  /**
+   * Continue the latest unfinished run of the chain; starts a new run if there is none.
+   * Throws if the unfinished run used different parameters.
+   */
+  async resume(chainId: number, params: DiscoveryParams): Promise<DiscoveryRun> {
+    const run = await this.db.get<{ id: number, params_json: string }>(
+      `SELECT id, params_json FROM tbl_dex_discovery_run
+       WHERE chain_id = ? AND status <> 'completed'
+       ORDER BY id DESC LIMIT 1`,
+      [chainId]
+    );
+
+    if (!run) {
+      console.log('ℹ️  No unfinished discovery run to resume - starting a new one');
+      return this.start(chainId, params);
+    }
+
+    if (run.params_json !== JSON.stringify(params)) {
+      throw new Error(
+        `Cannot resume discovery run #${run.id}: it was started with ${run.params_json}, ` +
+        `current settings are ${JSON.stringify(params)}`
+      );
+    }
+
+    const checkpoints = await this.db.all<{ anchor_token: string, first_pool: string }[]>(
+      `SELECT anchor_token, first_pool FROM tbl_dex_discovery_checkpoint WHERE run_id = ?`,
+      [run.id]
+    );
+    await this.db.run(`UPDATE tbl_dex_discovery_run SET status = 'running' WHERE id = ?`, [run.id]);
+
+    console.log(`⏯️  Resuming discovery run #${run.id}: ${checkpoints.length} first edges already explored`);
+    return {
+      runId: run.id,
+      completed: new Set(checkpoints.map(c => DiscoveryCheckpointService.edgeKey(c.anchor_token, c.first_pool)))
+    };
+  }
+
+  /**
+   * Load run covered by the chain's latest completed run with these parameters: pools first loaded
+   * after it are new to discovery. Undefined if no such run exists.
+   */
+  async lastCoveredLoadRun(chainId: number, params: DiscoveryParams): Promise<number | undefined> {
+    const run = await this.db.get<{ id: number, load_run_id: number | null }>(
+      `SELECT id, load_run_id FROM tbl_dex_discovery_run
+       WHERE chain_id = ? AND status = 'completed' AND params_json = ?
+       ORDER BY id DESC LIMIT 1`,
+      [chainId, JSON.stringify(params)]
+    );
+    return run ? run.load_run_id ?? 0 : undefined;
+  }
+
+  /**
+   * Record explored first edges; called inside the transaction that stores their last paths
+   */
+  async saveCheckpoints(runId: number, edges: Array<{ anchor: string, firstPool: string }>): Promise<void> {
+    for (const edge of edges) {
+      await this.db.run(
+        `INSERT OR IGNORE INTO tbl_dex_discovery_checkpoint (run_id, anchor_token, first_pool) VALUES (?, ?, ?)`,
+        [runId, edge.anchor, edge.firstPool]
+      );
+    }
+  }
+
+  /**
+   * Mark a discovery run as finished (or failed)
+   */
+  async finish(runId: number, status: DiscoveryRunStatus): Promise<void> {
+    await this.db.run(
+      `UPDATE tbl_dex_discovery_run SET status = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [status, runId]
+    );
+  }
+
+  static edgeKey(anchor: string, firstPool: string): string {
+    return `${anchor}:${firstPool}`;
+  }
+}
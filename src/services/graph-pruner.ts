@@ -0,0 +1,108 @@
+import { PoolInfo, PruningConfig, PruningReport } from '../types';
+
+/**
+ * Applies the discovery pruning rules to the pool set before the search graph is built
+ */
+export class GraphPruner {
+  constructor(
+    private config: PruningConfig,
+    /** Symbol of every loaded token, by address */
+    private tokenSymbols: Map<string, string>
+  ) {}
+
+  /**
+   * Resolve address or symbol entries to token addresses; a symbol matches every token using it
+   */
+  resolveTokens(entries: readonly string[]): Set<string> {
+    const addresses = new Set<string>();
+
+    for (const entry of entries) {
+      if (entry.startsWith('0x')) {
+        addresses.add(entry);
+        continue;
+      }
+
+      const wanted = entry.toLowerCase();
+      const matches = Array.from(this.tokenSymbols.entries())
+        .filter(([, symbol]) => symbol && symbol.toLowerCase() === wanted)
+        .map(([address]) => address);
+
+      if (matches.length === 0) {
+        console.warn(`⚠️  Pruning rule token ${entry} not found - ignoring`);
+      }
+      matches.forEach(address => addresses.add(address));
+    }
+
+    return addresses;
+  }
+
+  /**
+   * Remove pools rejected by the rules, in order: DEX include/exclude, token deny/allow lists,
+   * edge cap per intermediate token. Anchor tokens are exempt from the token rules.
+   */
+  prune(pools: PoolInfo[], anchors: Set<string>): { pools: PoolInfo[], report: PruningReport[] } {
+    const report: PruningReport[] = [];
+    let kept = pools;
+
+    const apply = (rule: string, keep: (pool: PoolInfo) => boolean) => {
+      const before = kept.length;
+      kept = kept.filter(keep);
+      report.push({ rule, removed: before - kept.length });
+    };
+
+    const intermediates = (pool: PoolInfo) => [pool.token0, pool.token1].filter(token => !anchors.has(token));
+
+    if (this.config.INCLUDE_DEX_TYPES.length > 0) {
+      const included = new Set(this.config.INCLUDE_DEX_TYPES);
+      apply(`includeDexTypes (${this.config.INCLUDE_DEX_TYPES.join(', ')})`, pool => included.has(pool.dex_type));
+    }
+
+    if (this.config.EXCLUDE_DEX_TYPES.length > 0) {
+      const excluded = new Set(this.config.EXCLUDE_DEX_TYPES);
+      apply(`excludeDexTypes (${this.config.EXCLUDE_DEX_TYPES.join(', ')})`, pool => !excluded.has(pool.dex_type));
+    }
+
+    if (this.config.TOKEN_DENYLIST.length > 0) {
+      const denied = this.resolveTokens(this.config.TOKEN_DENYLIST);
+      apply(`tokenDenylist (${denied.size} tokens)`, pool => intermediates(pool).every(token => !denied.has(token)));
+    }
+
+    if (this.config.TOKEN_ALLOWLIST.length > 0) {
+      const allowed = this.resolveTokens(this.config.TOKEN_ALLOWLIST);
+      apply(`tokenAllowlist (${allowed.size} tokens)`, pool => intermediates(pool).every(token => allowed.has(token)));
+    }
+
+    if (this.config.MAX_EDGES_PER_TOKEN > 0) {
+      const capped = this.capEdgesPerToken(kept, anchors, this.config.MAX_EDGES_PER_TOKEN);
+      apply(`maxEdgesPerToken (${this.config.MAX_EDGES_PER_TOKEN})`, pool => capped.has(pool.pool_address));
+    }
+
+    return { pools: kept, report };
+  }
+
+  /**
+   * Pools within the top `limit` by volume of each of their intermediate tokens
+   */
+  private capEdgesPerToken(pools: PoolInfo[], anchors: Set<string>, limit: number): Set<string> {
+    const byToken = new Map<string, PoolInfo[]>();
+    for (const pool of pools) {
+      for (const token of [pool.token0, pool.token1]) {
+        if (anchors.has(token)) continue;
+        if (!byToken.has(token)) byToken.set(token, []);
+        byToken.get(token)!.push(pool);
+      }
+    }
+
+    // Unknown volume ranks last; ties broken by address so runs are reproducible
+    const rank = (a: PoolInfo, b: PoolInfo) =>
+      (b.volume_usd ?? -1) - (a.volume_usd ?? -1) || a.pool_address.localeCompare(b.pool_address);
+
+    const dropped = new Set<string>();
+    for (const tokenPools of byToken.values()) {
+      if (tokenPools.length <= limit) continue;
+      tokenPools.sort(rank).slice(limit).forEach(pool => dropped.add(pool.pool_address));
+    }
+
+    return new Set(pools.map(pool => pool.pool_address).filter(address => !dropped.has(address)));
+  }
+}
@@ -1,6 +1,10 @@
 import { ethers } from 'ethers';
 import { Database } from 'sqlite';
 import { INFURA_API_KEY, UNISWAP_VIEW_ABI } from '../config/constants';
+import { getConfig } from '../config/config-manager';
+import { ChainConfig, PathDeletionPolicy, PoolDeletionResult } from '../types';
+import { PathIntegrityService } from './path-integrity';
+import { ReserveSnapshotService } from './reserve-snapshot-service';
 
 export interface PoolLiquidityInfo {
   poolAddress: string;
@@ -28,24 +32,44 @@ export interface TokenInfo {
 }
 
 export class LiquidityCleaner {
-  private provider: ethers.JsonRpcProvider;
-  private viewContract: ethers.Contract;
+  private viewContract: ethers.Contract | null = null;
+  private chain: ChainConfig = getConfig().chain;
   private readonly BATCH_SIZE = 500;
   private readonly MIN_BALANCE_THRESHOLD_BTC = 0.3; // For BTC tokens
   private readonly MIN_BALANCE_THRESHOLD_ETH = 5; // For ETH tokens
   private readonly MIN_BALANCE_THRESHOLD_OTHER = 10000; // For other tokens
   private tokenCache: Map<string, TokenInfo> = new Map();
   private debugMode: boolean = false;
-
-  constructor(private db: Database, debugMode: boolean = false) {
+  private pathIntegrity: PathIntegrityService;
+  private reserveSnapshots: ReserveSnapshotService;
+
+  constructor(
+    private db: Database,
+    debugMode: boolean = false,
+    private pathPolicy: PathDeletionPolicy = 'invalidate'
+  ) {
     this.debugMode = debugMode;
-    this.provider = new ethers.JsonRpcProvider(`https://mainnet.infura.io/v3/${INFURA_API_KEY}`);
-    // Smart contract address - should be updated with actual deployed address
-    this.viewContract = new ethers.Contract(
-      "0x416355755f32b2710ce38725ed0fa102ce7d07e6",
-      UNISWAP_VIEW_ABI,
-      this.provider
-    );
+    this.pathIntegrity = new PathIntegrityService(db);
+    this.reserveSnapshots = new ReserveSnapshotService(db);
+  }
+
+  /**
+   * Connect to the selected chain's view contract on first use
+   */
+  private getViewContract(): ethers.Contract {
+    if (this.viewContract) return this.viewContract;
+
+    const { NAME, RPC_URL, VIEW_CONTRACT } = this.chain;
+    if (RPC_URL.includes('{INFURA_API_KEY}') && !INFURA_API_KEY) {
+      throw new Error(`INFURA_API_KEY environment variable is required for the ${NAME} RPC URL`);
+    }
+    if (!VIEW_CONTRACT) {
+      throw new Error(`No view contract configured for ${NAME} - set viewContract or DEX_VIEW_CONTRACT`);
+    }
+
+    const provider = new ethers.JsonRpcProvider(RPC_URL.replace('{INFURA_API_KEY}', INFURA_API_KEY));
+    this.viewContract = new ethers.Contract(VIEW_CONTRACT, UNISWAP_VIEW_ABI, provider);
+    return this.viewContract;
   }
 
   /**
@@ -70,8 +94,8 @@ export class LiquidityCleaner {
   async getAllPoolsWithTokens(): Promise<Array<{ poolAddress: string, dexType: string, token0: string, token1: string }>> {
     const result = await this.db.all(`
       SELECT pool_address, dex_type, token0, token1 FROM tbl_dex_pool 
-      WHERE dex_type IN ('uniswapV2', 'sushiswapV2')
-    `);
+      WHERE chain_id = ? AND dex_type IN ('uniswapV2', 'sushiswapV2') AND is_stale = 0
+    `, [this.chain.CHAIN_ID]);
     return result.map(row => ({
       poolAddress: row.pool_address,
       dexType: row.dex_type,
@@ -90,8 +114,8 @@ export class LiquidityCleaner {
 
     try {
       const result = await this.db.get(`
-        SELECT decimal, symbol FROM tbl_dex_token WHERE address = ?
-      `, [tokenAddress]);
+        SELECT decimal, symbol FROM tbl_dex_token WHERE chain_id = ? AND address = ?
+      `, [this.chain.CHAIN_ID, tokenAddress]);
 
       const tokenInfo: TokenInfo = {
         address: tokenAddress,
@@ -127,11 +151,20 @@ export class LiquidityCleaner {
   }
 
   /**
-   * Check pools liquidity in batches - simple version that only returns pool address and balances
+   * Check pools liquidity in batches - simple version that only returns pool address and balances.
+   * Every batch reads the same block, and the balances are recorded in tbl_dex_reserve_snapshot.
    */
   async checkPoolsLiquidity(poolAddresses: string[]): Promise<PoolLiquidityInfo[]> {
     this.debugLog(`Starting checkPoolsLiquidity with ${poolAddresses.length} pools`);
     const liquidityInfos: PoolLiquidityInfo[] = [];
+    if (poolAddresses.length === 0) return liquidityInfos;
+
+    const viewContract = this.getViewContract();
+    const block = await viewContract.runner!.provider!.getBlock('latest');
+    if (!block) {
+      throw new Error(`Could not read the latest ${this.chain.NAME} block`);
+    }
+    this.debugLog(`Reading reserves at block ${block.number}`);
 
     for (let i = 0; i < poolAddresses.length; i += this.BATCH_SIZE) {
       const batch = poolAddresses.slice(i, i + this.BATCH_SIZE);
@@ -144,7 +177,7 @@ export class LiquidityCleaner {
       try {
         // console.log(`Calling viewPair with ${batch.length} addresses`);
 
-        const reservesArray = await this.viewContract.viewPair(batch);
+        const reservesArray = await viewContract.viewPair(batch, { blockTag: block.number });
 
         for (let j = 0; j < batch.length; j++) {
           const poolAddress = batch[j];
@@ -169,9 +202,26 @@ export class LiquidityCleaner {
     }
 
     this.debugLog(`checkPoolsLiquidity completed. Processed ${liquidityInfos.length} pools successfully`);
+
+    await this.reserveSnapshots.record(
+      { number: block.number, timestamp: block.timestamp },
+      liquidityInfos.map(info => ({ poolAddress: info.poolAddress, reserve0: info.token0Balance, reserve1: info.token1Balance }))
+    );
+    console.log(`📸 Recorded reserves of ${liquidityInfos.length} pools at block ${block.number}`);
     return liquidityInfos;
   }
 
+  /**
+   * Record the current reserves of every V2 pool without deleting anything
+   */
+  async snapshotReserves(): Promise<number> {
+    const pools = await this.getAllPoolsWithTokens();
+    console.log(`📊 Found ${pools.length} V2/SushiSwap V2 pools to snapshot.`);
+
+    const liquidityInfos = await this.checkPoolsLiquidity(pools.map(pool => pool.poolAddress));
+    return liquidityInfos.length;
+  }
+
   /**
    * Convert balance from wei to token units considering decimal
    */
@@ -189,8 +239,8 @@ export class LiquidityCleaner {
       try {
         // Get pool token information from database
         const poolData = await this.db.get(`
-          SELECT dex_type, token0, token1 FROM tbl_dex_pool WHERE pool_address = ?
-        `, [info.poolAddress]);
+          SELECT dex_type, token0, token1 FROM tbl_dex_pool WHERE chain_id = ? AND pool_address = ?
+        `, [this.chain.CHAIN_ID, info.poolAddress]);
 
         if (poolData) {
           this.debugLog(`Processing pool: ${info.poolAddress}, token0: ${poolData.token0}, token1: ${poolData.token1}`);
@@ -301,14 +351,14 @@ export class LiquidityCleaner {
     const tokenUsageQuery = `
       SELECT token_address, COUNT(*) as pool_count
       FROM (
-        SELECT token0 as token_address FROM tbl_dex_pool
+        SELECT token0 as token_address FROM tbl_dex_pool WHERE chain_id = ? AND is_stale = 0
         UNION ALL
-        SELECT token1 as token_address FROM tbl_dex_pool
+        SELECT token1 as token_address FROM tbl_dex_pool WHERE chain_id = ? AND is_stale = 0
       ) token_usage
       GROUP BY token_address
     `;
 
-    const tokenUsage = await this.db.all(tokenUsageQuery);
+    const tokenUsage = await this.db.all(tokenUsageQuery, [this.chain.CHAIN_ID, this.chain.CHAIN_ID]);
 
     // Debug: Show token usage distribution
     if (this.debugMode) {
@@ -341,12 +391,12 @@ export class LiquidityCleaner {
     const isolatedPoolsQuery = `
       SELECT pool_address, token0, token1, dex_type
       FROM tbl_dex_pool 
-      WHERE dex_type IN ('uniswapV2', 'sushiswapV2')
+      WHERE chain_id = ? AND dex_type IN ('uniswapV2', 'sushiswapV2')
       AND (token0 IN (${Array.from(singleUseTokens).map(() => '?').join(',')}) 
            OR token1 IN (${Array.from(singleUseTokens).map(() => '?').join(',')}))
     `;
 
-    const queryParams = [...Array.from(singleUseTokens), ...Array.from(singleUseTokens)];
+    const queryParams = [this.chain.CHAIN_ID, ...Array.from(singleUseTokens), ...Array.from(singleUseTokens)];
     const isolatedPools = await this.db.all(isolatedPoolsQuery, queryParams);
 
     this.debugLog(`Found ${isolatedPools.length} V2/SushiSwap V2 pools containing tokens that appear in only one pool globally`);
@@ -362,11 +412,11 @@ export class LiquidityCleaner {
       SELECT dex_type, pool_address, 
              CASE WHEN token0 = ? THEN 'token0' ELSE 'token1' END as position
       FROM tbl_dex_pool 
-      WHERE token0 = ? OR token1 = ?
+      WHERE chain_id = ? AND (token0 = ? OR token1 = ?)
       ORDER BY dex_type, pool_address
     `;
 
-    const usage = await this.db.all(usageQuery, [tokenAddress, tokenAddress, tokenAddress]);
+    const usage = await this.db.all(usageQuery, [tokenAddress, this.chain.CHAIN_ID, tokenAddress, tokenAddress]);
 
     console.log(`\n=== Token Usage Analysis for ${tokenAddress} ===`);
     console.log(`Total pools: ${usage.length}`);
@@ -403,8 +453,8 @@ export class LiquidityCleaner {
 
     for (const poolAddress of isolatedPoolAddresses) {
       const poolData = await this.db.get(`
-        SELECT dex_type, token0, token1 FROM tbl_dex_pool WHERE pool_address = ?
-      `, [poolAddress]);
+        SELECT dex_type, token0, token1 FROM tbl_dex_pool WHERE chain_id = ? AND pool_address = ?
+      `, [this.chain.CHAIN_ID, poolAddress]);
 
       if (poolData) {
         const token0Info = await this.getTokenInfo(poolData.token0);
@@ -425,41 +475,43 @@ export class LiquidityCleaner {
   }
 
   /**
-   * Delete isolated pools from database
+   * Delete isolated pools from database (stored paths using them are invalidated or removed)
    */
-  async deleteIsolatedPools(poolAddresses: string[]): Promise<number> {
+  async deleteIsolatedPools(poolAddresses: string[]): Promise<PoolDeletionResult> {
     if (poolAddresses.length === 0) {
       console.log('No isolated pools to delete.');
-      return 0;
+      return { deletedPools: 0, affectedPaths: 0 };
     }
 
-    const placeholders = poolAddresses.map(() => '?').join(',');
-    const result = await this.db.run(`
-      DELETE FROM tbl_dex_pool 
-      WHERE pool_address IN (${placeholders})
-    `, poolAddresses);
+    const result = await this.pathIntegrity.deletePools(this.chain.CHAIN_ID, poolAddresses, this.pathPolicy, 'isolated pool deleted');
 
-    console.log(`Deleted ${result.changes} isolated pools.`);
-    return result.changes || 0;
+    console.log(`Deleted ${result.deletedPools} isolated pools.`);
+    this.logAffectedPaths(result);
+    return result;
   }
 
   /**
-   * Delete low liquidity pools from database
+   * Delete low liquidity pools from database (stored paths using them are invalidated or removed)
    */
-  async deleteLowLiquidityPools(poolAddresses: string[]): Promise<number> {
+  async deleteLowLiquidityPools(poolAddresses: string[]): Promise<PoolDeletionResult> {
     if (poolAddresses.length === 0) {
       console.log('No low liquidity pools to delete.');
-      return 0;
+      return { deletedPools: 0, affectedPaths: 0 };
     }
 
-    const placeholders = poolAddresses.map(() => '?').join(',');
-    const result = await this.db.run(`
-      DELETE FROM tbl_dex_pool 
-      WHERE pool_address IN (${placeholders})
-    `, poolAddresses);
+    const result = await this.pathIntegrity.deletePools(this.chain.CHAIN_ID, poolAddresses, this.pathPolicy, 'low liquidity pool deleted');
+
+    console.log(`Deleted ${result.deletedPools} low liquidity pools.`);
+    this.logAffectedPaths(result);
+    return result;
+  }
 
-    console.log(`Deleted ${result.changes} low liquidity pools.`);
-    return result.changes || 0;
+  /**
+   * Report stored paths affected by a pool deletion
+   */
+  private logAffectedPaths(result: PoolDeletionResult): void {
+    const action = this.pathPolicy === 'cascade' ? 'Deleted' : 'Invalidated';
+    console.log(`${action} ${result.affectedPaths} stored arbitrage paths that used the deleted pools.`);
   }
 
   /**
@@ -476,10 +528,11 @@ export class LiquidityCleaner {
       await this.logIsolatedPools(isolatedPoolAddresses);
 
       // 3. Delete isolated pools
-      const deletedCount = await this.deleteIsolatedPools(isolatedPoolAddresses);
+      const deleted = await this.deleteIsolatedPools(isolatedPoolAddresses);
 
       console.log(`📊 Found ${isolatedPoolAddresses.length} isolated pools that cannot participate in circular arbitrage.`);
-      console.log(`�️F Deleted ${deletedCount} isolated pools from database.`);
+      console.log(`�️F Deleted ${deleted.deletedPools} isolated pools from database.`);
+      console.log(`🔗 ${deleted.affectedPaths} stored paths ${this.pathPolicy === 'cascade' ? 'deleted' : 'invalidated'}.`);
       console.log('✅ Isolated pools cleanup completed.');
     } catch (error) {
       console.error('❌ Error during isolated pools cleanup:', error);
@@ -496,6 +549,7 @@ export class LiquidityCleaner {
       console.log('This will clean both isolated pools and low liquidity pools.\n');
 
       let totalDeletedPools = 0;
+      let totalAffectedPaths = 0;
 
       // 1. Clean isolated pools first (they can't participate in arbitrage anyway)
       console.log('='.repeat(60));
@@ -503,18 +557,22 @@ export class LiquidityCleaner {
       console.log('='.repeat(60));
       const isolatedPoolAddresses = await this.findIsolatedPools();
       await this.logIsolatedPools(isolatedPoolAddresses);
-      const deletedIsolatedCount = await this.deleteIsolatedPools(isolatedPoolAddresses);
-      totalDeletedPools += deletedIsolatedCount;
+      const deletedIsolated = await this.deleteIsolatedPools(isolatedPoolAddresses);
+      totalDeletedPools += deletedIsolated.deletedPools;
+      totalAffectedPaths += deletedIsolated.affectedPaths;
 
       console.log('\n' + '='.repeat(60));
       console.log('STEP 2: LOW LIQUIDITY POOLS CLEANUP');
       console.log('='.repeat(60));
       // 2. Clean low liquidity pools (after isolated pools are removed)
-      await this.cleanLowLiquidityPools();
+      const deletedLowLiquidity = await this.cleanLowLiquidityPools();
+      totalDeletedPools += deletedLowLiquidity.deletedPools;
+      totalAffectedPaths += deletedLowLiquidity.affectedPaths;
 
       console.log('\n' + '='.repeat(60));
       console.log('✅ Comprehensive pool cleanup completed.');
-      console.log(`🗑️ Total pools removed: ${totalDeletedPools} isolated pools + low liquidity pools`);
+      console.log(`🗑️ Total pools removed: ${totalDeletedPools} (isolated + low liquidity)`);
+      console.log(`🔗 Total stored paths ${this.pathPolicy === 'cascade' ? 'deleted' : 'invalidated'}: ${totalAffectedPaths}`);
       console.log('Database has been cleaned of ineffective pools for arbitrage.');
       console.log('='.repeat(60));
     } catch (error) {
@@ -526,7 +584,7 @@ export class LiquidityCleaner {
   /**
    * Execute the complete low liquidity pool cleanup process
    */
-  async cleanLowLiquidityPools(): Promise<void> {
+  async cleanLowLiquidityPools(): Promise<PoolDeletionResult> {
     try {
       console.log('💧 Starting low liquidity pool cleanup...');
 
@@ -557,13 +615,15 @@ export class LiquidityCleaner {
       this.logLowLiquidityPools(lowLiquidityPools);
 
       // 6. Delete low liquidity pools
-      const deletedCount = await this.deleteLowLiquidityPools(
+      const deleted = await this.deleteLowLiquidityPools(
         lowLiquidityPools.map(pool => pool.poolAddress)
       );
 
       console.log(`📊 Found ${lowLiquidityPools.length} low liquidity pools.`);
-      console.log(`�️ Denleted ${deletedCount} low liquidity pools from database.`);
+      console.log(`�️ Denleted ${deleted.deletedPools} low liquidity pools from database.`);
+      console.log(`🔗 ${deleted.affectedPaths} stored paths ${this.pathPolicy === 'cascade' ? 'deleted' : 'invalidated'}.`);
       console.log('✅ Low liquidity pool cleanup completed.');
+      return deleted;
     } catch (error) {
       console.error('❌ Error during liquidity cleanup:', error);
       throw error;
@@ -0,0 +1,129 @@
+import { Database } from 'sqlite';
+import { LoadMode, LoadRunSummaryRow } from '../types';
+import { PathIntegrityService } from './path-integrity';
+
+/**
+ * Tracks load runs and the pool changes each run produced
+ */
+export class LoadRunTracker {
+  private pathIntegrity: PathIntegrityService;
+
+  constructor(private db: Database) {
+    this.pathIntegrity = new PathIntegrityService(db);
+  }
+
+  /**
+   * Register a new load run and return its id
+   */
+  async start(mode: LoadMode, fileCount: number, chainId: number): Promise<number> {
+    const result = await this.db.run(
+      `INSERT INTO tbl_dex_load_run (mode, file_count, chain_id) VALUES (?, ?, ?)`,
+      [mode, fileCount, chainId]
+    );
+    return result.lastID ?? 0;
+  }
+
+  /**
+   * Mark a load run as finished (or failed)
+   */
+  async finish(runId: number, status: 'completed' | 'failed'): Promise<void> {
+    await this.db.run(
+      `UPDATE tbl_dex_load_run SET status = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [status, runId]
+    );
+  }
+
+  /**
+   * Mark pools of the loaded chain and DEX types that were not seen in this run as stale and
+   * invalidate the stored paths that use them, in one transaction.
+   * Returns the number of newly stale pools per DEX type.
+   */
+  async markStalePools(runId: number, chainId: number, dexTypes: string[]): Promise<Map<string, number>> {
+    const removed = new Map<string, number>();
+    if (dexTypes.length === 0) return removed;
+
+    const placeholders = dexTypes.map(() => '?').join(',');
+    const condition = `
+      chain_id = ?
+      AND dex_type IN (${placeholders})
+      AND (load_run_id IS NULL OR load_run_id <> ?)
+      AND is_stale = 0
+    `;
+    const params = [chainId, ...dexTypes, runId];
+
+    await this.db.run('BEGIN TRANSACTION');
+
+    try {
+      const rows = await this.db.all<{ dex_type: string, count: number }[]>(
+        `SELECT dex_type, COUNT(*) as count FROM tbl_dex_pool WHERE ${condition} GROUP BY dex_type`,
+        params
+      );
+      rows.forEach(row => removed.set(row.dex_type, row.count));
+
+      const invalidatedPaths = await this.pathIntegrity.invalidatePaths(
+        `SELECT id FROM tbl_dex_pool WHERE ${condition}`,
+        params,
+        'pool missing from incremental load'
+      );
+
+      await this.db.run(
+        `UPDATE tbl_dex_pool SET is_stale = 1, updated_load_run_id = ? WHERE ${condition}`,
+        [runId, ...params]
+      );
+
+      await this.db.run('COMMIT');
+
+      if (invalidatedPaths > 0) {
+        console.log(`Invalidated ${invalidatedPaths} stored arbitrage paths that used the stale pools.`);
+      }
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Summarize added/updated/removed pools per DEX type for a run
+   */
+  async summarize(runId: number, removed: Map<string, number>): Promise<LoadRunSummaryRow[]> {
+    const rows = await this.db.all<{ dex_type: string, added: number, updated: number }[]>(`
+      SELECT dex_type,
+             SUM(CASE WHEN first_load_run_id = ? THEN 1 ELSE 0 END) as added,
+             SUM(CASE WHEN first_load_run_id <> ? AND updated_load_run_id = ? AND is_stale = 0 THEN 1 ELSE 0 END) as updated
+      FROM tbl_dex_pool
+      WHERE load_run_id = ?
+      GROUP BY dex_type
+    `, [runId, runId, runId, runId]);
+
+    const summary = new Map<string, LoadRunSummaryRow>();
+    rows.forEach(row => summary.set(row.dex_type, {
+      dexType: row.dex_type,
+      added: row.added,
+      updated: row.updated,
+      removed: 0
+    }));
+
+    removed.forEach((count, dexType) => {
+      const row = summary.get(dexType) ?? { dexType, added: 0, updated: 0, removed: 0 };
+      row.removed = count;
+      summary.set(dexType, row);
+    });
+
+    return Array.from(summary.values()).sort((a, b) => a.dexType.localeCompare(b.dexType));
+  }
+
+  /**
+   * Print the per-DEX change summary
+   */
+  logSummary(runId: number, summary: LoadRunSummaryRow[]): void {
+    console.log(`\n=== Load Run #${runId} Summary ===`);
+    console.table(summary.map(row => ({
+      'DEX type': row.dexType,
+      Added: row.added,
+      Updated: row.updated,
+      Removed: row.removed
+    })));
+  }
+}
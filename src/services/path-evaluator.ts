@@ -0,0 +1,276 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { Database } from 'sqlite';
+import { ChainConfig, EvaluationConfig, PathEvaluation, PathQuote, PoolInfo, QuotablePath, ReserveSource } from '../types';
+import { getConfig } from '../config/config-manager';
+import { CONSTANT_PRODUCT_DEX_TYPES } from '../config/constants';
+import { CsvPathSink } from '../sinks/csv-sink';
+import { PathQuoter } from './path-quoter';
+
+const CSV_COLUMNS = [
+  'rank', 'anchor', 'path_id', 'swap_path', 'amount_in', 'amount_out', 'gross_profit', 'gas_units', 'gas_cost', 'net_profit'
+];
+const TOP_PATHS_LOGGED = 10;
+const PROGRESS_INTERVAL = 1000;
+
+/** Anchor token per native token (raw units), from the deepest wrapped native / anchor pool */
+interface NativePrice {
+  anchorReserve: bigint;
+  nativeReserve: bigint;
+}
+
+/**
+ * Quotes every stored path at the configured input sizes, subtracts gas priced in the path's
+ * anchor token, and ranks the results per anchor
+ */
+export class PathEvaluator {
+  private chain: ChainConfig = getConfig().chain;
+  private config: EvaluationConfig = getConfig().evaluation;
+  private quoter: PathQuoter;
+  private gasByDex: Map<string, number>;
+  private nativePrices = new Map<string, NativePrice | null>();
+  private tokens = new Map<string, { symbol: string, decimal: number }>();
+
+  constructor(private db: Database, private reserveSource: ReserveSource) {
+    this.quoter = new PathQuoter(db, reserveSource);
+    this.gasByDex = new Map(this.config.GAS_BY_DEX.map(entry => {
+      const [dexType, gas] = entry.split(':');
+      return [dexType, Number(gas)];
+    }));
+  }
+
+  /**
+   * Evaluate all valid paths of the chain, replace the stored evaluation and write the CSV
+   */
+  async evaluatePaths(): Promise<PathEvaluation[]> {
+    const paths = await this.db.all<Array<{ id: number }>>(
+      `SELECT id FROM tbl_dex_arbitrage_path WHERE chain_id = ? AND invalidated_at IS NULL ORDER BY id`,
+      [this.chain.CHAIN_ID]
+    );
+    console.log(`📊 Evaluating ${paths.length} paths at ${this.config.INPUT_SIZES.join(', ')} anchor tokens (reserves: ${this.reserveSource.name})`);
+
+    const evaluations: PathEvaluation[] = [];
+    let unloaded = 0;
+    let unquoted = 0;
+    let unpriced = 0;
+
+    for (let i = 0; i < paths.length; i++) {
+      let path: QuotablePath;
+      try {
+        path = await this.quoter.loadPath(paths[i].id);
+      } catch (error) {
+        console.warn(`⚠️  Path ${paths[i].id} could not be loaded: ${(error as Error).message}`);
+        unloaded++;
+        continue;
+      }
+
+      const evaluated = await this.evaluatePath(path);
+      if (evaluated === null) unpriced++;
+      else if (evaluated.length === 0) unquoted++;
+      else evaluations.push(...evaluated);
+
+      if ((i + 1) % PROGRESS_INTERVAL === 0) {
+        console.log(`⏳ Evaluated ${i + 1}/${paths.length} paths`);
+      }
+    }
+
+    this.rank(evaluations);
+    await this.store(evaluations);
+    await this.writeCsv(evaluations);
+    await this.logTop(evaluations);
+
+    const profitable = evaluations.filter(evaluation => evaluation.netProfit > 0n);
+    console.log(`✅ ${evaluations.length} evaluations stored in tbl_dex_path_evaluation and ${this.config.CSV_FILE}; ${profitable.length} profitable after gas.`);
+    if (unloaded > 0) {
+      console.log(`⚠️  ${unloaded} paths could not be loaded (see the messages above)`);
+    }
+    if (unquoted > 0) {
+      console.log(`⚠️  ${unquoted} paths could not be quoted at any size (missing reserve or V3 snapshots, or too little liquidity)`);
+    }
+    if (unpriced > 0) {
+      console.log(`⚠️  ${unpriced} paths skipped: no ${this.chain.WRAPPED_NATIVE_SYMBOL} pool with reserves to price gas in their anchor token`);
+    }
+    return evaluations;
+  }
+
+  /**
+   * Evaluations of one path at every size it can be quoted at; null when gas can't be priced in its anchor
+   */
+  private async evaluatePath(path: QuotablePath): Promise<PathEvaluation[] | null> {
+    const nativePrice = await this.getNativePrice(path.anchorToken);
+    if (!nativePrice) return null;
+
+    const anchor = await this.getToken(path.anchorToken);
+    const gasUnits = this.config.BASE_GAS +
+      path.hops.reduce((sum, hop) => sum + (this.gasByDex.get(hop.pool.dex_type) ?? this.config.GAS_PER_HOP), 0);
+    const gasWei = BigInt(gasUnits) * ethers.parseUnits(this.config.GAS_PRICE_GWEI.toFixed(9), 'gwei');
+    const gasCost = gasWei * nativePrice.anchorReserve / nativePrice.nativeReserve;
+
+    const evaluations: PathEvaluation[] = [];
+    for (const size of this.config.INPUT_SIZES) {
+      const quote = this.tryQuote(path, size, anchor.decimal);
+      if (!quote) continue;
+
+      evaluations.push({
+        pathId: path.pathId,
+        anchorToken: path.anchorToken,
+        swapPath: path.swapPath,
+        amountIn: quote.amountIn,
+        amountOut: quote.amountOut,
+        grossProfit: quote.profit,
+        gasUnits,
+        gasCost,
+        netProfit: quote.profit - gasCost,
+        rank: 0
+      });
+    }
+    return evaluations;
+  }
+
+  /**
+   * Quote at a size in whole anchor tokens; null when the size or the path's pool state can't be quoted
+   */
+  private tryQuote(path: QuotablePath, size: string, decimals: number): PathQuote | null {
+    try {
+      return this.quoter.quote(path, ethers.parseUnits(size, decimals));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Gas is paid in the native token: 1:1 for the wrapped native anchor, otherwise the reserve ratio
+   * of the wrapped native / anchor constant-product pool holding the most native token
+   */
+  private async getNativePrice(anchorToken: string): Promise<NativePrice | null> {
+    if (anchorToken === this.chain.WRAPPED_NATIVE) {
+      return { anchorReserve: 1n, nativeReserve: 1n };
+    }
+    if (this.nativePrices.has(anchorToken)) {
+      return this.nativePrices.get(anchorToken)!;
+    }
+
+    const native = this.chain.WRAPPED_NATIVE;
+    const pools = await this.db.all<PoolInfo[]>(`
+      SELECT * FROM tbl_dex_pool
+      WHERE chain_id = ? AND is_stale = 0 AND dex_type IN (${CONSTANT_PRODUCT_DEX_TYPES.map(() => '?').join(',')})
+        AND ((token0 = ? AND token1 = ?) OR (token0 = ? AND token1 = ?))
+    `, [this.chain.CHAIN_ID, ...CONSTANT_PRODUCT_DEX_TYPES, native, anchorToken, anchorToken, native]);
+    const reserves = await this.reserveSource.getReserves(pools);
+
+    let price: NativePrice | null = null;
+    for (const pool of pools) {
+      const poolReserves = reserves.get(pool.pool_address);
+      if (!poolReserves) continue;
+
+      const [nativeReserve, anchorReserve] = pool.token0 === native
+        ? [poolReserves.reserve0, poolReserves.reserve1]
+        : [poolReserves.reserve1, poolReserves.reserve0];
+      if (nativeReserve > 0n && (!price || nativeReserve > price.nativeReserve)) {
+        price = { anchorReserve, nativeReserve };
+      }
+    }
+
+    this.nativePrices.set(anchorToken, price);
+    return price;
+  }
+
+  /**
+   * Sort by anchor, then net profit (highest first), and number the evaluations of each anchor from 1
+   */
+  private rank(evaluations: PathEvaluation[]): void {
+    evaluations.sort((a, b) => {
+      if (a.anchorToken !== b.anchorToken) return a.anchorToken < b.anchorToken ? -1 : 1;
+      if (a.netProfit !== b.netProfit) return a.netProfit > b.netProfit ? -1 : 1;
+      return a.pathId - b.pathId;
+    });
+
+    let rank = 0;
+    evaluations.forEach((evaluation, i) => {
+      rank = i > 0 && evaluations[i - 1].anchorToken === evaluation.anchorToken ? rank + 1 : 1;
+      evaluation.rank = rank;
+    });
+  }
+
+  /**
+   * Replace the chain's previous evaluation
+   */
+  private async store(evaluations: PathEvaluation[]): Promise<void> {
+    await this.db.run('BEGIN TRANSACTION');
+    try {
+      await this.db.run(`DELETE FROM tbl_dex_path_evaluation WHERE chain_id = ?`, [this.chain.CHAIN_ID]);
+
+      const stmt = await this.db.prepare(`
+        INSERT INTO tbl_dex_path_evaluation
+        (chain_id, path_id, anchor_token, swap_path, amount_in, amount_out, gross_profit, gas_units, gas_cost, net_profit, rank)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const evaluation of evaluations) {
+        await stmt.run([
+          this.chain.CHAIN_ID, evaluation.pathId, evaluation.anchorToken, evaluation.swapPath,
+          evaluation.amountIn.toString(), evaluation.amountOut.toString(), evaluation.grossProfit.toString(),
+          evaluation.gasUnits, evaluation.gasCost.toString(), evaluation.netProfit.toString(), evaluation.rank
+        ]);
+      }
+      await stmt.finalize();
+
+      await this.db.run('COMMIT');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Ranked evaluations with amounts in whole anchor tokens
+   */
+  private async writeCsv(evaluations: PathEvaluation[]): Promise<void> {
+    const lines = [CSV_COLUMNS.join(',')];
+
+    for (const evaluation of evaluations) {
+      const anchor = await this.getToken(evaluation.anchorToken);
+      const tokens = (amount: bigint) => ethers.formatUnits(amount, anchor.decimal);
+      lines.push([
+        evaluation.rank,
+        anchor.symbol,
+        evaluation.pathId,
+        evaluation.swapPath,
+        tokens(evaluation.amountIn),
+        tokens(evaluation.amountOut),
+        tokens(evaluation.grossProfit),
+        evaluation.gasUnits,
+        tokens(evaluation.gasCost),
+        tokens(evaluation.netProfit)
+      ].map(value => CsvPathSink.escape(String(value))).join(','));
+    }
+
+    fs.writeFileSync(this.config.CSV_FILE, lines.join('\n') + '\n');
+  }
+
+  private async logTop(evaluations: PathEvaluation[]): Promise<void> {
+    const top = evaluations.filter(evaluation => evaluation.rank <= TOP_PATHS_LOGGED);
+
+    for (const anchorToken of new Set(top.map(evaluation => evaluation.anchorToken))) {
+      const anchor = await this.getToken(anchorToken);
+      const tokens = (amount: bigint) => ethers.formatUnits(amount, anchor.decimal);
+
+      console.log(`\n🏆 Top ${anchor.symbol} paths by net profit`);
+      console.table(top.filter(evaluation => evaluation.anchorToken === anchorToken).map(evaluation => ({
+        rank: evaluation.rank,
+        path: evaluation.pathId,
+        route: evaluation.swapPath,
+        in: tokens(evaluation.amountIn),
+        gross: tokens(evaluation.grossProfit),
+        gas: tokens(evaluation.gasCost),
+        net: tokens(evaluation.netProfit)
+      })));
+    }
+  }
+
+  private async getToken(address: string): Promise<{ symbol: string, decimal: number }> {
+    if (!this.tokens.has(address)) {
+      this.tokens.set(address, await this.quoter.getToken(address));
+    }
+    return this.tokens.get(address)!;
+  }
+}
@@ -0,0 +1,97 @@
+import { Database } from 'sqlite';
+import { PathDeletionPolicy, PoolDeletionResult } from '../types';
+
+const CHUNK_SIZE = 500;
+
+/**
+ * Keeps stored arbitrage paths consistent with the pools they use
+ */
+export class PathIntegrityService {
+  constructor(private db: Database) {}
+
+  /**
+   * Delete pools and handle the paths that use them, in one transaction.
+   * 'invalidate' marks affected paths invalid (steps keep their pool address, pool_id becomes NULL);
+   * 'cascade' deletes affected paths, their steps and cycles left without paths.
+   */
+  async deletePools(
+    chainId: number,
+    poolAddresses: string[],
+    policy: PathDeletionPolicy,
+    reason: string
+  ): Promise<PoolDeletionResult> {
+    const result: PoolDeletionResult = { deletedPools: 0, affectedPaths: 0 };
+    if (poolAddresses.length === 0) return result;
+
+    await this.db.run('BEGIN TRANSACTION');
+
+    try {
+      for (let i = 0; i < poolAddresses.length; i += CHUNK_SIZE) {
+        const chunk = poolAddresses.slice(i, i + CHUNK_SIZE);
+        const placeholders = chunk.map(() => '?').join(',');
+
+        const poolIdsQuery = `SELECT id FROM tbl_dex_pool WHERE chain_id = ? AND pool_address IN (${placeholders})`;
+        const poolParams = [chainId, ...chunk];
+
+        if (policy === 'cascade') {
+          const deleted = await this.db.run(
+            `DELETE FROM tbl_dex_arbitrage_path WHERE id IN (${this.affectedPathsQuery(poolIdsQuery)})`,
+            [...poolParams, ...poolParams]
+          );
+          result.affectedPaths += deleted.changes || 0;
+        } else {
+          result.affectedPaths += await this.invalidatePaths(poolIdsQuery, poolParams, reason);
+        }
+
+        const deletedPools = await this.db.run(
+          `DELETE FROM tbl_dex_pool WHERE chain_id = ? AND pool_address IN (${placeholders})`,
+          [chainId, ...chunk]
+        );
+        result.deletedPools += deletedPools.changes || 0;
+      }
+
+      if (policy === 'cascade' && result.affectedPaths > 0) {
+        // Cycles whose paths were all deleted are no longer referenced
+        await this.db.run(
+          `DELETE FROM tbl_dex_arbitrage_cycle
+           WHERE chain_id = ? AND NOT EXISTS (
+             SELECT 1 FROM tbl_dex_arbitrage_path p WHERE p.cycle_id = tbl_dex_arbitrage_cycle.id
+           )`,
+          [chainId]
+        );
+      }
+
+      await this.db.run('COMMIT');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark the valid paths that use any pool selected by `poolIdsQuery` invalid and return how many
+   * were marked. Runs in the caller's transaction.
+   */
+  async invalidatePaths(poolIdsQuery: string, params: unknown[], reason: string): Promise<number> {
+    const invalidated = await this.db.run(
+      `UPDATE tbl_dex_arbitrage_path
+       SET invalidated_at = CURRENT_TIMESTAMP, invalidation_reason = ?
+       WHERE invalidated_at IS NULL AND id IN (${this.affectedPathsQuery(poolIdsQuery)})`,
+      [reason, ...params, ...params]
+    );
+    return invalidated.changes || 0;
+  }
+
+  /**
+   * Paths using a selected pool as a step or as a step candidate
+   */
+  private affectedPathsQuery(poolIdsQuery: string): string {
+    return `
+      SELECT path_id FROM tbl_dex_arbitrage_step WHERE pool_id IN (${poolIdsQuery})
+      UNION
+      SELECT path_id FROM tbl_dex_arbitrage_step_candidate WHERE pool_id IN (${poolIdsQuery})
+    `;
+  }
+}
@@ -0,0 +1,123 @@
+import { ethers } from 'ethers';
+import { Database } from 'sqlite';
+import { PathOptimum, PathQuote, QuotablePath, ReserveSource } from '../types';
+import { CONCENTRATED_LIQUIDITY_DEX_TYPES, CONSTANT_PRODUCT_DEX_TYPES, DEFAULT_FEE_TIER } from '../config/constants';
+import { ConstantProductMath } from '../utils/constant-product-math';
+import { InsufficientLiquidityError } from '../utils/v3-swap-simulator';
+import { PathQuoter } from './path-quoter';
+
+/**
+ * Finds the input size that maximizes a stored path's profit at the current pool state
+ */
+export class PathOptimizer {
+  private quoter: PathQuoter;
+
+  constructor(db: Database, reserveSource: ReserveSource) {
+    this.quoter = new PathQuoter(db, reserveSource);
+  }
+
+  /**
+   * Closed form when every hop is constant-product; with V3 hops, a ternary search over the input,
+   * valid because every hop's output is concave in its input and so is the path's profit
+   */
+  async optimize(pathId: number): Promise<PathOptimum> {
+    const path = await this.quoter.loadPath(pathId);
+    const unsupported = path.hops.find(hop =>
+      !CONSTANT_PRODUCT_DEX_TYPES.includes(hop.pool.dex_type) && !CONCENTRATED_LIQUIDITY_DEX_TYPES.includes(hop.pool.dex_type)
+    );
+    if (unsupported) {
+      throw new Error(`Cannot size path ${pathId}: ${unsupported.pool.dex_type} pool ${unsupported.pool.pool_address} is neither constant-product nor V3`);
+    }
+    const allConstantProduct = path.hops.every(hop => CONSTANT_PRODUCT_DEX_TYPES.includes(hop.pool.dex_type));
+
+    const quote = allConstantProduct
+      ? this.closedForm(path)
+      : await this.search(path);
+
+    return {
+      pathId,
+      method: allConstantProduct ? 'closed-form' : 'numeric',
+      quote: quote && quote.profit > 0n ? quote : null
+    };
+  }
+
+  /**
+   * Optimize a path and print the quote at the optimal size
+   */
+  async optimizeAndLog(pathId: number): Promise<PathOptimum> {
+    const optimum = await this.optimize(pathId);
+
+    if (!optimum.quote) {
+      console.log(`📉 Path ${pathId} is not profitable at any input size (${optimum.method})`);
+      return optimum;
+    }
+
+    const anchor = await this.quoter.getToken(optimum.quote.anchorToken);
+    console.log(`🎯 Optimal input for path ${pathId} (${optimum.method}): ${ethers.formatUnits(optimum.quote.amountIn, anchor.decimal)} ${anchor.symbol}`);
+    await this.quoter.logQuote(optimum.quote);
+    return optimum;
+  }
+
+  private closedForm(path: QuotablePath): PathQuote | null {
+    const amountIn = ConstantProductMath.optimalAmountIn(path.hops.map(hop => {
+      if (!hop.reserves) {
+        throw new Error(`No reserves for pool ${hop.pool.pool_address}`);
+      }
+      const [reserveIn, reserveOut] = hop.zeroForOne
+        ? [hop.reserves.reserve0, hop.reserves.reserve1]
+        : [hop.reserves.reserve1, hop.reserves.reserve0];
+      return { reserveIn, reserveOut, feeTier: BigInt(hop.pool.fee_tier ?? DEFAULT_FEE_TIER) };
+    }));
+
+    return amountIn > 0n ? this.quoter.quote(path, amountIn) : null;
+  }
+
+  /**
+   * Double the input from a millionth of an anchor token while profit grows, then narrow the
+   * bracket by thirds; sizes a V3 snapshot can't fill count as worse than any fillable size.
+   * The seed quote is not guarded, so missing reserves or snapshots surface as errors.
+   */
+  private async search(path: QuotablePath): Promise<PathQuote | null> {
+    const anchor = await this.quoter.getToken(path.anchorToken);
+    const seed = 10n ** BigInt(Math.max(anchor.decimal - 6, 0));
+
+    let amount = seed;
+    let best = this.quoter.quote(path, amount);
+
+    for (;;) {
+      const next = this.tryQuote(path, amount * 2n);
+      if (!next || next.profit <= best.profit) break;
+      amount *= 2n;
+      best = next;
+    }
+
+    let low = amount / 2n;
+    let high = amount * 2n;
+    while (high - low > 2n) {
+      const third = (high - low) / 3n;
+      const left = this.tryQuote(path, low + third);
+      const right = this.tryQuote(path, high - third);
+
+      if (right && (!left || left.profit < right.profit)) low += third;
+      else high -= third;
+    }
+
+    for (let candidate = low; candidate <= high; candidate++) {
+      const quote = this.tryQuote(path, candidate);
+      if (quote && quote.profit > best.profit) best = quote;
+    }
+    return best;
+  }
+
+  /**
+   * Quote a size, or null when a V3 hop can't fill it
+   */
+  private tryQuote(path: QuotablePath, amountIn: bigint): PathQuote | null {
+    try {
+      return this.quoter.quote(path, amountIn);
+    } catch (error) {
+      if (error instanceof InsufficientLiquidityError) return null;
+      throw error;
+    }
+  }
+}
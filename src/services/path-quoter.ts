@@ -0,0 +1,236 @@
+import { ethers } from 'ethers';
+import { Database } from 'sqlite';
+import { ChainConfig, HopQuote, PathQuote, PoolInfo, QuotableHop, QuotablePath, ReserveSource } from '../types';
+import { getConfig } from '../config/config-manager';
+import { CONCENTRATED_LIQUIDITY_DEX_TYPES, CONSTANT_PRODUCT_DEX_TYPES, DEFAULT_FEE_TIER } from '../config/constants';
+import { ConstantProductMath } from '../utils/constant-product-math';
+import { V3SwapSimulator } from '../utils/v3-swap-simulator';
+import { V3SnapshotService } from './v3-snapshot-service';
+import { SwapUtils } from '../utils/swap-utils';
+
+interface StoredStep {
+  step_index: number;
+  pool_id: number | null;
+  pool_address: string;
+  from_token: string;
+  to_token: string;
+}
+
+/**
+ * Quotes stored arbitrage paths hop by hop: constant-product hops from pool reserves,
+ * concentrated-liquidity hops from their latest stored tick snapshot
+ */
+export class PathQuoter {
+  private chain: ChainConfig = getConfig().chain;
+
+  constructor(
+    private db: Database,
+    private reserveSource: ReserveSource,
+    private v3Snapshots: V3SnapshotService = new V3SnapshotService(db)
+  ) {}
+
+  /**
+   * Push amountIn (raw units of the path's anchor token) through every hop of a stored path
+   */
+  async quotePath(pathId: number, amountIn: bigint): Promise<PathQuote> {
+    return this.quote(await this.loadPath(pathId), amountIn);
+  }
+
+  /**
+   * Load a stored path with its pools' reserves and V3 snapshots
+   */
+  async loadPath(pathId: number): Promise<QuotablePath> {
+    const path = await this.db.get<{ anchor_token: string, swap_path: string, invalidated_at: string | null }>(
+      `SELECT anchor_token, swap_path, invalidated_at FROM tbl_dex_arbitrage_path WHERE id = ? AND chain_id = ?`,
+      [pathId, this.chain.CHAIN_ID]
+    );
+    if (!path) {
+      throw new Error(`Path ${pathId} not found on ${this.chain.NAME}`);
+    }
+    if (path.invalidated_at) {
+      throw new Error(`Path ${pathId} was invalidated: one of its pools no longer exists`);
+    }
+
+    const steps = await this.db.all<StoredStep[]>(
+      `SELECT step_index, pool_id, pool_address, from_token, to_token
+       FROM tbl_dex_arbitrage_step WHERE path_id = ? ORDER BY step_index`,
+      [pathId]
+    );
+    const pools = await this.loadPools(steps);
+    const reserves = await this.reserveSource.getReserves(Array.from(pools.values()));
+    const snapshots = await this.v3Snapshots.getLatest(
+      Array.from(pools.values()).filter(pool => CONCENTRATED_LIQUIDITY_DEX_TYPES.includes(pool.dex_type))
+    );
+
+    return {
+      pathId,
+      anchorToken: path.anchor_token,
+      swapPath: path.swap_path,
+      hops: steps.map(step => {
+        const pool = pools.get(step.pool_address)!;
+        return {
+          stepIndex: step.step_index,
+          pool,
+          fromToken: step.from_token,
+          toToken: step.to_token,
+          zeroForOne: pool.token0 === step.from_token,
+          reserves: reserves.get(pool.pool_address),
+          snapshot: snapshots.get(pool.pool_address)
+        };
+      })
+    };
+  }
+
+  /**
+   * Quote a loaded path; throws when a hop has no pool state or can't absorb its input
+   */
+  quote(path: QuotablePath, amountIn: bigint): PathQuote {
+    const hops: HopQuote[] = [];
+    let amount = amountIn;
+
+    for (const hop of path.hops) {
+      const amountOut = CONCENTRATED_LIQUIDITY_DEX_TYPES.includes(hop.pool.dex_type)
+        ? this.quoteConcentratedHop(hop, amount)
+        : this.quoteHop(hop, amount);
+
+      hops.push({
+        stepIndex: hop.stepIndex,
+        poolAddress: hop.pool.pool_address,
+        dexType: hop.pool.dex_type,
+        fromToken: hop.fromToken,
+        toToken: hop.toToken,
+        feeBps: SwapUtils.feeBps(hop.pool.fee_tier),
+        amountIn: amount,
+        amountOut,
+        priceImpact: this.priceImpact(hop, amount, amountOut)
+      });
+      amount = amountOut;
+    }
+
+    return {
+      pathId: path.pathId,
+      anchorToken: path.anchorToken,
+      swapPath: path.swapPath,
+      amountIn,
+      amountOut: amount,
+      profit: amount - amountIn,
+      hops
+    };
+  }
+
+  /**
+   * Quote an amount given in whole anchor tokens (e.g. "1.5") and print the per-hop amounts
+   */
+  async quoteTokenAmount(pathId: number, amount: string): Promise<PathQuote> {
+    const anchor = await this.db.get<{ anchor_token: string }>(
+      `SELECT anchor_token FROM tbl_dex_arbitrage_path WHERE id = ? AND chain_id = ?`,
+      [pathId, this.chain.CHAIN_ID]
+    );
+    if (!anchor) {
+      throw new Error(`Path ${pathId} not found on ${this.chain.NAME}`);
+    }
+
+    const anchorToken = await this.getToken(anchor.anchor_token);
+    const quote = await this.quotePath(pathId, ethers.parseUnits(amount, anchorToken.decimal));
+    await this.logQuote(quote);
+    return quote;
+  }
+
+  /**
+   * Print each hop's amounts in whole tokens and the net result in the anchor token
+   */
+  async logQuote(quote: PathQuote): Promise<void> {
+    const rows = [];
+    for (const hop of quote.hops) {
+      const from = await this.getToken(hop.fromToken);
+      const to = await this.getToken(hop.toToken);
+      rows.push({
+        hop: hop.stepIndex,
+        pool: hop.poolAddress,
+        dex: hop.dexType,
+        'fee bps': hop.feeBps,
+        in: `${ethers.formatUnits(hop.amountIn, from.decimal)} ${from.symbol}`,
+        out: `${ethers.formatUnits(hop.amountOut, to.decimal)} ${to.symbol}`,
+        impact: `${(hop.priceImpact * 100).toFixed(2)}%`
+      });
+    }
+
+    const anchor = await this.getToken(quote.anchorToken);
+    const sign = quote.profit < 0n ? '' : '+';
+    console.log(`\n💱 Path ${quote.pathId}: ${quote.swapPath}`);
+    console.table(rows);
+    console.log(
+      `${quote.profit > 0n ? '💰' : '📉'} ${ethers.formatUnits(quote.amountIn, anchor.decimal)} ${anchor.symbol} → ` +
+      `${ethers.formatUnits(quote.amountOut, anchor.decimal)} ${anchor.symbol} ` +
+      `(${sign}${ethers.formatUnits(quote.profit, anchor.decimal)} ${anchor.symbol})`
+    );
+  }
+
+  /**
+   * Symbol and decimals of a token, falling back to its address and 18 decimals
+   */
+  async getToken(address: string): Promise<{ symbol: string, decimal: number }> {
+    const token = await this.db.get<{ symbol: string | null, decimal: number | null }>(
+      `SELECT symbol, decimal FROM tbl_dex_token WHERE chain_id = ? AND address = ?`,
+      [this.chain.CHAIN_ID, address]
+    );
+    return { symbol: token?.symbol ?? address, decimal: token?.decimal ?? 18 };
+  }
+
+  /**
+   * Pools of the steps by address; every step must still reference a pool
+   */
+  private async loadPools(steps: StoredStep[]): Promise<Map<string, PoolInfo>> {
+    const missing = steps.filter(step => step.pool_id === null);
+    if (missing.length > 0) {
+      throw new Error(`Pools no longer exist: ${missing.map(step => step.pool_address).join(', ')}`);
+    }
+
+    const ids = steps.map(step => step.pool_id!);
+    const pools = await this.db.all<PoolInfo[]>(
+      `SELECT * FROM tbl_dex_pool WHERE id IN (${ids.map(() => '?').join(',')})`,
+      ids
+    );
+    return new Map(pools.map(pool => [pool.pool_address, pool]));
+  }
+
+  private quoteHop(hop: QuotableHop, amountIn: bigint): bigint {
+    const { pool, reserves } = hop;
+    if (!CONSTANT_PRODUCT_DEX_TYPES.includes(pool.dex_type)) {
+      throw new Error(`Cannot quote ${pool.dex_type} pool ${pool.pool_address}: only constant-product and V3 pools are supported`);
+    }
+    if (!reserves) {
+      throw new Error(`No reserves for pool ${pool.pool_address} from ${this.reserveSource.name}`);
+    }
+
+    const [reserveIn, reserveOut] = hop.zeroForOne
+      ? [reserves.reserve0, reserves.reserve1]
+      : [reserves.reserve1, reserves.reserve0];
+
+    return ConstantProductMath.getAmountOut(amountIn, reserveIn, reserveOut, BigInt(pool.fee_tier ?? DEFAULT_FEE_TIER));
+  }
+
+  private quoteConcentratedHop(hop: QuotableHop, amountIn: bigint): bigint {
+    const { pool, snapshot } = hop;
+    if (!snapshot) {
+      throw new Error(`No tick snapshot for ${pool.dex_type} pool ${pool.pool_address}: run import-v3-snapshots first`);
+    }
+
+    const feePips = BigInt(pool.fee_tier ?? DEFAULT_FEE_TIER);
+    return V3SwapSimulator.exactInput(snapshot, hop.zeroForOne, amountIn, feePips).amountOut;
+  }
+
+  /**
+   * 1 - (amountOut / amountIn after the fee) / spot price, the spot price being the reserve ratio
+   * for constant-product pools and the snapshot's sqrtPriceX96 squared for V3 pools
+   */
+  private priceImpact(hop: QuotableHop, amountIn: bigint, amountOut: bigint): number {
+    const token1PerToken0 = hop.snapshot
+      ? (Number(hop.snapshot.sqrtPriceX96) / 2 ** 96) ** 2
+      : Number(hop.reserves!.reserve1) / Number(hop.reserves!.reserve0);
+    const spot = hop.zeroForOne ? token1PerToken0 : 1 / token1PerToken0;
+    const feeFactor = 1 - Number(hop.pool.fee_tier ?? DEFAULT_FEE_TIER) / 1_000_000;
+
+    return 1 - Number(amountOut) / (Number(amountIn) * feeFactor) / spot;
+  }
+}
@@ -0,0 +1,208 @@
+import { Database, Statement } from 'sqlite';
+import { DexSourceAdapter, DuplicatePoolHandler, LoadContext, Pair } from '../types';
+import { getConfig } from '../config/config-manager';
+import { LOAD_POOL_COLUMNS, LOAD_TOKEN_COLUMNS } from '../config/constants';
+
+const TOKEN_COLUMNS = 'chain_id, address, name, symbol, decimal, total_liquidity, liquidity_snapshot_at, source_file, load_run_id, updated_load_run_id';
+const POOL_COLUMNS = 'chain_id, dex_type, pool_address, fee_tier, token0, token1, volume_usd, volume_snapshot_at, source_file, first_load_run_id, load_run_id, updated_load_run_id';
+
+// Incremental mode: refresh changed rows and bump updated_load_run_id only when something differs
+const TOKEN_UPSERT = `
+  ON CONFLICT(chain_id, address) DO UPDATE SET
+    updated_load_run_id = CASE
+      WHEN name IS NOT excluded.name OR symbol IS NOT excluded.symbol OR decimal IS NOT excluded.decimal
+      THEN excluded.load_run_id ELSE updated_load_run_id END,
+    name = excluded.name,
+    symbol = excluded.symbol,
+    decimal = excluded.decimal,
+    total_liquidity = excluded.total_liquidity,
+    liquidity_snapshot_at = excluded.liquidity_snapshot_at,
+    source_file = excluded.source_file,
+    load_run_id = excluded.load_run_id
+`;
+
+const POOL_UPSERT = `
+  ON CONFLICT(chain_id, pool_address) DO UPDATE SET
+    updated_load_run_id = CASE
+      WHEN dex_type IS NOT excluded.dex_type OR fee_tier IS NOT excluded.fee_tier
+        OR token0 IS NOT excluded.token0 OR token1 IS NOT excluded.token1 OR is_stale = 1
+      THEN excluded.load_run_id ELSE updated_load_run_id END,
+    revived_load_run_id = CASE WHEN is_stale = 1 THEN excluded.load_run_id ELSE revived_load_run_id END,
+    dex_type = excluded.dex_type,
+    fee_tier = excluded.fee_tier,
+    token0 = excluded.token0,
+    token1 = excluded.token1,
+    volume_usd = excluded.volume_usd,
+    volume_snapshot_at = excluded.volume_snapshot_at,
+    source_file = excluded.source_file,
+    load_run_id = excluded.load_run_id,
+    is_stale = 0
+`;
+
+/**
+ * Writes pools and their tokens using cached multi-row prepared statements.
+ * A pool already written in this load run, or queued in the current batch, is handed to
+ * `onDuplicate` instead of being written; only the current batch is held in memory.
+ */
+export class PoolBatchWriter {
+  private pending = new Map<string, { pair: Pair, raw: unknown }>();
+  private statements = new Map<string, Statement>();
+  private pairsProcessed = 0;
+  private poolsWritten = 0;
+
+  constructor(
+    private db: Database,
+    private adapter: DexSourceAdapter,
+    private context: LoadContext,
+    private onDuplicate: DuplicatePoolHandler = async () => undefined,
+    private batchSize: number = getConfig().batch.LOAD_BATCH_SIZE
+  ) {}
+
+  /**
+   * Number of pairs sent to the database so far
+   */
+  get processed(): number {
+    return this.pairsProcessed;
+  }
+
+  /**
+   * Number of pool rows actually inserted or updated so far (insert mode ignores pools already stored)
+   */
+  get written(): number {
+    return this.poolsWritten;
+  }
+
+  /**
+   * Queue a pair, flushing when the batch is full. `raw` is the source record passed to `onDuplicate`.
+   */
+  async add(pair: Pair, raw: unknown = pair): Promise<void> {
+    if (this.pending.has(pair.id)) {
+      await this.onDuplicate(raw, pair.id);
+      return;
+    }
+    this.pending.set(pair.id, { pair, raw });
+
+    if (this.pending.size >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Write all queued pairs that were not already written in this load run
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) return;
+
+    const pending = this.pending;
+    this.pending = new Map();
+
+    for (const address of await this.writtenInRun(Array.from(pending.keys()))) {
+      await this.onDuplicate(pending.get(address)?.raw, address);
+      pending.delete(address);
+    }
+    if (pending.size === 0) return;
+
+    const pairs = Array.from(pending.values(), queued => queued.pair);
+    const { runId, chainId, sourceFile, snapshotAt } = this.context;
+    const tokenParams: unknown[] = [];
+    const poolParams: unknown[] = [];
+
+    for (const pair of pairs) {
+      for (const token of [pair.token0, pair.token1]) {
+        tokenParams.push(
+          chainId, token.id, token.name, token.symbol, Number(token.decimals),
+          this.toNumber(token.totalLiquidity), snapshotAt,
+          sourceFile, runId, runId
+        );
+      }
+      poolParams.push(
+        chainId, this.adapter.dexType, pair.id, this.adapter.getFeeTier(pair), pair.token0.id, pair.token1.id,
+        this.toNumber(pair.volumeUSD), snapshotAt,
+        sourceFile, runId, runId, runId
+      );
+    }
+
+    const incremental = this.context.mode !== 'insert';
+
+    const tokenStmt = await this.getStatement(
+      'token',
+      pairs.length * 2,
+      `INSERT ${incremental ? '' : 'OR IGNORE '}INTO tbl_dex_token (${TOKEN_COLUMNS}) VALUES `,
+      this.rowPlaceholder(LOAD_TOKEN_COLUMNS),
+      incremental ? TOKEN_UPSERT : ''
+    );
+    const poolStmt = await this.getStatement(
+      'pool',
+      pairs.length,
+      `INSERT ${incremental ? '' : 'OR IGNORE '}INTO tbl_dex_pool (${POOL_COLUMNS}) VALUES `,
+      this.rowPlaceholder(LOAD_POOL_COLUMNS),
+      incremental ? POOL_UPSERT : ''
+    );
+
+    await tokenStmt.run(tokenParams);
+    const result = await poolStmt.run(poolParams);
+
+    this.pairsProcessed += pairs.length;
+    this.poolsWritten += result.changes ?? 0;
+  }
+
+  /**
+   * Flush remaining pairs and release prepared statements
+   */
+  async close(): Promise<void> {
+    try {
+      await this.flush();
+    } finally {
+      for (const stmt of this.statements.values()) {
+        await stmt.finalize();
+      }
+      this.statements.clear();
+    }
+  }
+
+  /**
+   * Pool addresses among `addresses` that an earlier batch of this load run already wrote
+   */
+  private async writtenInRun(addresses: string[]): Promise<string[]> {
+    const rows = await this.db.all<{ pool_address: string }[]>(
+      `SELECT pool_address FROM tbl_dex_pool
+       WHERE chain_id = ? AND load_run_id = ? AND pool_address IN (${addresses.map(() => '?').join(',')})`,
+      [this.context.chainId, this.context.runId, ...addresses]
+    );
+    return rows.map(row => row.pool_address);
+  }
+
+  /**
+   * Parse a numeric metadata string (volume, liquidity), keeping NULL for missing or invalid values
+   */
+  private toNumber(value: string | undefined): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private rowPlaceholder(columns: number): string {
+    return `(${new Array(columns).fill('?').join(', ')})`;
+  }
+
+  /**
+   * Get (or prepare) a multi-row insert statement for the given row count
+   */
+  private async getStatement(
+    kind: string,
+    rows: number,
+    prefix: string,
+    rowPlaceholder: string,
+    suffix: string
+  ): Promise<Statement> {
+    const key = `${kind}:${rows}`;
+    let stmt = this.statements.get(key);
+
+    if (!stmt) {
+      stmt = await this.db.prepare(prefix + new Array(rows).fill(rowPlaceholder).join(', ') + suffix);
+      this.statements.set(key, stmt);
+    }
+
+    return stmt;
+  }
+}
@@ -0,0 +1,87 @@
+import { DexSourceAdapter, Pair, Token, ValidationResult } from '../types';
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/;
+const MAX_DECIMALS = 255;
+
+/**
+ * Validates and normalizes parsed pool records before they reach the database
+ */
+export class PoolRecordValidator {
+  /**
+   * Validate a parsed pair, returning a lowercase-normalized copy or a rejection reason
+   */
+  validate(pair: Pair, adapter: DexSourceAdapter): ValidationResult {
+    if (!pair || !pair.token0 || !pair.token1) {
+      return { valid: false, reason: 'MALFORMED_RECORD', detail: 'record is missing token0/token1' };
+    }
+
+    const poolAddress = this.normalizeAddress(pair.id);
+    if (!poolAddress) {
+      return { valid: false, reason: 'INVALID_POOL_ADDRESS', detail: `invalid pool address "${pair.id}"` };
+    }
+
+    const token0 = this.normalizeToken(pair.token0);
+    if (typeof token0 === 'string') {
+      return this.rejectToken('token0', pair.token0, token0);
+    }
+    const token1 = this.normalizeToken(pair.token1);
+    if (typeof token1 === 'string') {
+      return this.rejectToken('token1', pair.token1, token1);
+    }
+
+    if (token0.id === token1.id) {
+      return { valid: false, reason: 'IDENTICAL_TOKENS', detail: `token0 and token1 are both ${token0.id}` };
+    }
+
+    const normalized: Pair = { ...pair, id: poolAddress, token0, token1 };
+
+    try {
+      adapter.getFeeTier(normalized);
+    } catch (error) {
+      return { valid: false, reason: 'MALFORMED_RECORD', detail: (error as Error).message };
+    }
+
+    return { valid: true, pair: normalized };
+  }
+
+  /**
+   * Normalize token fields, or return the failing reason code
+   */
+  private normalizeToken(token: Token): Token | 'INVALID_TOKEN_ADDRESS' | 'INVALID_DECIMALS' | 'MISSING_SYMBOL' {
+    const address = this.normalizeAddress(token.id);
+    if (!address) return 'INVALID_TOKEN_ADDRESS';
+
+    const decimals = String(token.decimals ?? '').trim();
+    if (!/^\d+$/.test(decimals) || Number(decimals) > MAX_DECIMALS) return 'INVALID_DECIMALS';
+
+    const symbol = typeof token.symbol === 'string' ? token.symbol.trim() : '';
+    if (!symbol) return 'MISSING_SYMBOL';
+
+    return {
+      ...token,
+      id: address,
+      symbol,
+      name: typeof token.name === 'string' ? token.name.trim() : symbol,
+      decimals: String(Number(decimals))
+    };
+  }
+
+  private rejectToken(
+    position: 'token0' | 'token1',
+    token: Token,
+    reason: 'INVALID_TOKEN_ADDRESS' | 'INVALID_DECIMALS' | 'MISSING_SYMBOL'
+  ): ValidationResult {
+    const details = {
+      INVALID_TOKEN_ADDRESS: `invalid ${position} address "${token.id}"`,
+      INVALID_DECIMALS: `invalid ${position} decimals "${token.decimals}"`,
+      MISSING_SYMBOL: `${position} ${token.id} has no symbol`
+    };
+    return { valid: false, reason, detail: details[reason] };
+  }
+
+  private normalizeAddress(address: unknown): string | null {
+    if (typeof address !== 'string') return null;
+    const lower = address.trim().toLowerCase();
+    return ADDRESS_PATTERN.test(lower) ? lower : null;
+  }
+}
@@ -0,0 +1,121 @@
+import { Database } from 'sqlite';
+import {
+  ArbitrageConfig, ChainConfig, PoolInfo, PoolReserves, ProfitableCycle, ProfitSearchStats, ReserveSource,
+  TokenInfo, WeightedEdge
+} from '../types';
+import { getConfig } from '../config/config-manager';
+import { CONSTANT_PRODUCT_DEX_TYPES, DEFAULT_FEE_TIER } from '../config/constants';
+import { NegativeCycleSearch } from '../utils/negative-cycle-search';
+import { AnchorResolver } from './anchor-resolver';
+
+/**
+ * Finds profitable loops through the anchor tokens on a graph weighted by reserves and fees
+ */
+export class ProfitableCycleFinder {
+  private tokenCache = new Map<string, string>();
+  private graph = new Map<string, WeightedEdge[]>();
+  private config: ArbitrageConfig = getConfig().arbitrage;
+  private chain: ChainConfig = getConfig().chain;
+  private stats: ProfitSearchStats = { revisitsSkipped: 0 };
+
+  constructor(private db: Database, private reserveSource: ReserveSource) {}
+
+  /**
+   * Main entry point: profitable loops of every anchor, best rate first
+   */
+  async findProfitableCycles(): Promise<ProfitableCycle[]> {
+    console.log('💹 Starting profitable cycle search...');
+
+    const pools = await this.loadPools();
+    const reserves = await this.reserveSource.getReserves(pools);
+    console.log(`📊 Reserves from ${this.reserveSource.name} for ${reserves.size} of ${pools.length} pools`);
+
+    this.buildWeightedGraph(pools, reserves);
+
+    const anchors = new AnchorResolver(this.tokenCache, this.graph, this.chain).resolve(this.config.ANCHOR_TOKENS);
+    const cycles: ProfitableCycle[] = [];
+
+    for (const anchor of anchors) {
+      const found = NegativeCycleSearch.findFromAnchor(
+        this.graph, anchor.address, this.config.MIN_HOPS, this.config.MAX_HOPS, this.stats
+      );
+      console.log(`💰 ${anchor.symbol}: ${found.length} profitable loops`);
+      cycles.push(...found);
+    }
+
+    cycles.sort((a, b) => b.rate - a.rate);
+
+    if (this.stats.revisitsSkipped > 0) {
+      console.log(`ℹ️  ${this.stats.revisitsSkipped} walk extensions would have repeated a token or pool and were skipped`);
+    }
+    console.log('ℹ️  One walk is kept per token and hop count, so some profitable loops can be missed - find-paths lists every cycle');
+    this.logCycles(cycles, anchors);
+    return cycles;
+  }
+
+  /**
+   * Constant-product pools of the chain (other pool types need more than two reserves to price)
+   */
+  private async loadPools(): Promise<PoolInfo[]> {
+    const placeholders = CONSTANT_PRODUCT_DEX_TYPES.map(() => '?').join(',');
+    const [pools, tokens] = await Promise.all([
+      this.db.all<PoolInfo[]>(`
+        SELECT * FROM tbl_dex_pool
+        WHERE chain_id = ? AND is_stale = 0 AND dex_type IN (${placeholders})
+          AND (volume_usd IS NULL OR volume_usd >= ?)
+      `, [this.chain.CHAIN_ID, ...CONSTANT_PRODUCT_DEX_TYPES, this.config.MIN_POOL_VOLUME_USD]),
+      this.db.all<TokenInfo[]>(
+        'SELECT address, symbol FROM tbl_dex_token WHERE chain_id = ?',
+        [this.chain.CHAIN_ID]
+      )
+    ]);
+
+    tokens.forEach(token => this.tokenCache.set(token.address, token.symbol));
+    return pools;
+  }
+
+  /**
+   * Two directed edges per pool with reserves: -ln((1 - fee) * reserveOut / reserveIn).
+   * Amounts stay in raw units; token decimals cancel out around a cycle.
+   */
+  private buildWeightedGraph(pools: PoolInfo[], reserves: Map<string, PoolReserves>): void {
+    this.graph.clear();
+
+    for (const pool of pools) {
+      const poolReserves = reserves.get(pool.pool_address);
+      if (!poolReserves || poolReserves.reserve0 === 0n || poolReserves.reserve1 === 0n) continue;
+
+      const feeFactor = 1 - Number(pool.fee_tier ?? DEFAULT_FEE_TIER) / 1_000_000;
+      const logFee = Math.log(feeFactor);
+      const logReserve0 = Math.log(Number(poolReserves.reserve0));
+      const logReserve1 = Math.log(Number(poolReserves.reserve1));
+
+      if (!this.graph.has(pool.token0)) this.graph.set(pool.token0, []);
+      if (!this.graph.has(pool.token1)) this.graph.set(pool.token1, []);
+      this.graph.get(pool.token0)!.push({ pool: pool.pool_address, toToken: pool.token1, weight: -(logFee + logReserve1 - logReserve0) });
+      this.graph.get(pool.token1)!.push({ pool: pool.pool_address, toToken: pool.token0, weight: -(logFee + logReserve0 - logReserve1) });
+    }
+
+    console.log(`🔗 Weighted graph constructed: ${this.graph.size} tokens`);
+  }
+
+  /**
+   * Print the profitable loops with their implied rate
+   */
+  private logCycles(cycles: ProfitableCycle[], anchors: TokenInfo[]): void {
+    if (cycles.length === 0) {
+      console.log('📭 No profitable loops at the current reserves');
+      return;
+    }
+
+    const symbol = (address: string) => this.tokenCache.get(address) ?? address;
+    console.log(`\n💹 Profitable loops (${anchors.length} anchor token(s)):`);
+    console.table(cycles.map(cycle => ({
+      path: cycle.tokens.map(symbol).join('-'),
+      hops: cycle.pools.length,
+      rate: cycle.rate.toFixed(6),
+      'profit bps': ((cycle.rate - 1) * 10_000).toFixed(2),
+      pools: cycle.pools.join(' ')
+    })));
+  }
+}
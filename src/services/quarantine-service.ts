@@ -0,0 +1,194 @@
+import { Database } from 'sqlite';
+import { Pair, QuarantineReason, QuarantineRecord, ValidationResult } from '../types';
+import { DexAdapterRegistry } from '../adapters/adapter-registry';
+import { PoolRecordValidator } from './pool-validator';
+import { PoolBatchWriter } from './pool-batch-writer';
+import { LoadRunTracker } from './load-run-tracker';
+import { getConfig } from '../config/config-manager';
+
+export interface QuarantineEntry {
+  runId: number | null;
+  chainId: number;
+  dexType: string;
+  sourceFile: string | null;
+  reason: QuarantineReason;
+  detail: string;
+  raw: unknown;
+}
+
+export interface ReimportResult {
+  reimported: number;
+  stillQuarantined: number;
+}
+
+/**
+ * Service for storing, listing and re-importing rejected pool records
+ */
+export class QuarantineService {
+  constructor(
+    private db: Database,
+    private adapters: DexAdapterRegistry = DexAdapterRegistry.createDefault()
+  ) {}
+
+  /**
+   * Store a rejected record with its reason code and the raw JSON
+   */
+  async add(entry: QuarantineEntry): Promise<void> {
+    await this.db.run(
+      `INSERT INTO tbl_dex_quarantine (load_run_id, chain_id, dex_type, source_file, reason, detail, raw_json)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [entry.runId, entry.chainId, entry.dexType, entry.sourceFile, entry.reason, entry.detail, JSON.stringify(entry.raw)]
+    );
+  }
+
+  /**
+   * List quarantined records of the selected chain, optionally filtered by reason code
+   */
+  async list(reason?: string, status: QuarantineRecord['status'] = 'pending'): Promise<QuarantineRecord[]> {
+    const params: unknown[] = [status, getConfig().chain.CHAIN_ID];
+    let query = `SELECT * FROM tbl_dex_quarantine WHERE status = ? AND chain_id = ?`;
+
+    if (reason) {
+      query += ` AND reason = ?`;
+      params.push(reason);
+    }
+
+    return this.db.all<QuarantineRecord[]>(query + ` ORDER BY id`, params);
+  }
+
+  /**
+   * Print quarantined records with a per-reason breakdown
+   */
+  logList(records: QuarantineRecord[]): void {
+    console.log(`\n=== Quarantined Records (${records.length}) ===`);
+
+    const reasonCounts = records.reduce((acc, record) => {
+      acc[record.reason] = (acc[record.reason] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    Object.entries(reasonCounts).forEach(([reason, count]) => {
+      console.log(`  ${reason}: ${count}`);
+    });
+    console.log();
+
+    records.forEach(record => {
+      console.log(`#${record.id} [${record.reason}] ${record.dex_type} (${record.source_file ?? 'unknown file'})`);
+      console.log(`  ${record.detail ?? ''}`);
+      console.log(`  ${record.raw_json}`);
+    });
+  }
+
+  /**
+   * Replace the raw JSON of a quarantined record (e.g. after fixing it by hand)
+   */
+  async fix(id: number, rawJson: string): Promise<void> {
+    // Fail early on invalid JSON instead of storing it
+    JSON.parse(rawJson);
+
+    const result = await this.db.run(
+      `UPDATE tbl_dex_quarantine SET raw_json = ? WHERE id = ? AND status = 'pending'`,
+      [rawJson, id]
+    );
+
+    if (!result.changes) {
+      throw new Error(`No pending quarantined record with id ${id}`);
+    }
+    console.log(`✏️  Updated raw JSON of quarantined record #${id}`);
+  }
+
+  /**
+   * Re-validate pending records (all, or the given ids) and import the ones that now pass
+   */
+  async reimport(ids: number[] = []): Promise<ReimportResult> {
+    let records = await this.list();
+    if (ids.length > 0) {
+      records = records.filter(record => ids.includes(record.id));
+    }
+
+    if (records.length === 0) {
+      console.log('No pending quarantined records to re-import.');
+      return { reimported: 0, stillQuarantined: 0 };
+    }
+
+    const tracker = new LoadRunTracker(this.db);
+    const runId = await tracker.start('reimport', 0, getConfig().chain.CHAIN_ID);
+    const validator = new PoolRecordValidator();
+    const result: ReimportResult = { reimported: 0, stillQuarantined: 0 };
+
+    await this.db.run('BEGIN TRANSACTION');
+
+    try {
+      for (const record of records) {
+        const validation = await this.revalidate(record, validator);
+
+        if (!validation.valid) {
+          await this.db.run(
+            `UPDATE tbl_dex_quarantine SET reason = ?, detail = ? WHERE id = ?`,
+            [validation.reason, validation.detail, record.id]
+          );
+          console.log(`⚠️  #${record.id} still rejected: [${validation.reason}] ${validation.detail}`);
+          result.stillQuarantined++;
+          continue;
+        }
+
+        const writer = new PoolBatchWriter(this.db, this.adapters.getByDexType(record.dex_type), {
+          runId,
+          chainId: record.chain_id,
+          mode: 'reimport',
+          sourceFile: record.source_file ?? 'quarantine',
+          snapshotAt: record.created_at
+        });
+        await writer.add(validation.pair);
+        await writer.close();
+
+        await this.db.run(
+          `UPDATE tbl_dex_quarantine SET status = 'reimported', reimported_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [record.id]
+        );
+        result.reimported++;
+      }
+
+      await this.db.run('COMMIT');
+      await tracker.finish(runId, 'completed');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      await tracker.finish(runId, 'failed');
+      throw error;
+    }
+
+    console.log(`✅ Re-imported ${result.reimported} records, ${result.stillQuarantined} still quarantined.`);
+    return result;
+  }
+
+  /**
+   * Parse and validate a quarantined record again, treating pools already in the database as duplicates
+   */
+  private async revalidate(record: QuarantineRecord, validator: PoolRecordValidator): Promise<ValidationResult> {
+    const adapter = this.adapters.getByDexType(record.dex_type);
+
+    let pair: Pair | null;
+    try {
+      pair = adapter.parseRecord(JSON.parse(record.raw_json));
+    } catch (error) {
+      return { valid: false, reason: 'MALFORMED_RECORD', detail: (error as Error).message };
+    }
+
+    if (!pair) {
+      return { valid: false, reason: 'MALFORMED_RECORD', detail: `record is not supported by the ${adapter.dexType} adapter` };
+    }
+
+    const validation = validator.validate(pair, adapter);
+    if (!validation.valid) return validation;
+
+    const existing = await this.db.get(
+      `SELECT id FROM tbl_dex_pool WHERE chain_id = ? AND pool_address = ?`,
+      [record.chain_id, validation.pair.id]
+    );
+    if (existing) {
+      return { valid: false, reason: 'DUPLICATE_POOL', detail: `pool ${validation.pair.id} already exists in tbl_dex_pool` };
+    }
+
+    return validation;
+  }
+}
@@ -0,0 +1,105 @@
+import { Database } from 'sqlite';
+import { ChainConfig, PoolReserves, ReserveSnapshot } from '../types';
+import { getConfig } from '../config/config-manager';
+
+const CHUNK_SIZE = 500;
+
+interface SnapshotRow {
+  pool_address: string;
+  block_number: number;
+  block_timestamp: number;
+  reserve0: string;
+  reserve1: string;
+}
+
+/**
+ * Records pool reserves per block and answers latest and historical reserve queries
+ */
+export class ReserveSnapshotService {
+  private chain: ChainConfig = getConfig().chain;
+
+  constructor(private db: Database) {}
+
+  /**
+   * Store reserves read at one block; re-recording a pool at the same block overwrites it
+   */
+  async record(block: { number: number, timestamp: number }, reserves: PoolReserves[]): Promise<number> {
+    if (reserves.length === 0) return 0;
+
+    await this.db.run('BEGIN TRANSACTION');
+    try {
+      const stmt = await this.db.prepare(`
+        INSERT OR REPLACE INTO tbl_dex_reserve_snapshot
+        (chain_id, pool_address, pool_id, block_number, block_timestamp, reserve0, reserve1)
+        VALUES (?, ?, (SELECT id FROM tbl_dex_pool WHERE chain_id = ? AND pool_address = ?), ?, ?, ?, ?)
+      `);
+
+      for (const pool of reserves) {
+        await stmt.run([
+          this.chain.CHAIN_ID, pool.poolAddress, this.chain.CHAIN_ID, pool.poolAddress,
+          block.number, block.timestamp, pool.reserve0.toString(), pool.reserve1.toString()
+        ]);
+      }
+
+      await stmt.finalize();
+      await this.db.run('COMMIT');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+
+    return reserves.length;
+  }
+
+  /**
+   * Most recent snapshot of each pool, or the last one at or before atBlock;
+   * pools without a snapshot are left out
+   */
+  async getLatest(poolAddresses: string[], atBlock?: number): Promise<Map<string, ReserveSnapshot>> {
+    const snapshots = new Map<string, ReserveSnapshot>();
+    const blockFilter = atBlock === undefined ? '' : 'AND block_number <= ?';
+
+    for (let i = 0; i < poolAddresses.length; i += CHUNK_SIZE) {
+      const chunk = poolAddresses.slice(i, i + CHUNK_SIZE);
+      const rows = await this.db.all<SnapshotRow[]>(`
+        SELECT s.pool_address, s.block_number, s.block_timestamp, s.reserve0, s.reserve1
+        FROM tbl_dex_reserve_snapshot s
+        WHERE s.chain_id = ? AND s.pool_address IN (${chunk.map(() => '?').join(',')})
+          AND s.block_number = (
+            SELECT MAX(block_number) FROM tbl_dex_reserve_snapshot
+            WHERE chain_id = s.chain_id AND pool_address = s.pool_address ${blockFilter}
+          )
+      `, [this.chain.CHAIN_ID, ...chunk, ...(atBlock === undefined ? [] : [atBlock])]);
+
+      for (const row of rows) {
+        snapshots.set(row.pool_address, this.toSnapshot(row));
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Every snapshot of a pool in block order, optionally limited to a block range (inclusive)
+   */
+  async getHistory(poolAddress: string, fromBlock: number = 0, toBlock: number = Number.MAX_SAFE_INTEGER): Promise<ReserveSnapshot[]> {
+    const rows = await this.db.all<SnapshotRow[]>(`
+      SELECT pool_address, block_number, block_timestamp, reserve0, reserve1
+      FROM tbl_dex_reserve_snapshot
+      WHERE chain_id = ? AND pool_address = ? AND block_number BETWEEN ? AND ?
+      ORDER BY block_number
+    `, [this.chain.CHAIN_ID, poolAddress.toLowerCase(), fromBlock, toBlock]);
+
+    return rows.map(row => this.toSnapshot(row));
+  }
+
+  private toSnapshot(row: SnapshotRow): ReserveSnapshot {
+    return {
+      poolAddress: row.pool_address,
+      blockNumber: row.block_number,
+      blockTimestamp: row.block_timestamp,
+      reserve0: BigInt(row.reserve0),
+      reserve1: BigInt(row.reserve1)
+    };
+  }
+}
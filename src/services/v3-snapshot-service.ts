@@ -0,0 +1,189 @@
+import fs from 'fs';
+import { Database } from 'sqlite';
+import { ChainConfig, PoolInfo, V3PoolSnapshot } from '../types';
+import { getConfig } from '../config/config-manager';
+import { CONCENTRATED_LIQUIDITY_DEX_TYPES } from '../config/constants';
+
+/** One pool in an import file; big numbers as decimal strings */
+interface SnapshotRecord {
+  pool: string;
+  blockNumber: number;
+  sqrtPriceX96: string;
+  tick: number;
+  liquidity: string;
+  tickSpacing: number;
+  ticks: Array<{ tick: number, liquidityNet: string }>;
+}
+
+interface SnapshotRow {
+  id: number;
+  pool_address: string;
+  block_number: number;
+  sqrt_price_x96: string;
+  tick: number;
+  liquidity: string;
+  tick_spacing: number;
+}
+
+/**
+ * Stores and reads per-block V3 pool snapshots used to simulate concentrated-liquidity swaps
+ */
+export class V3SnapshotService {
+  private chain: ChainConfig = getConfig().chain;
+
+  constructor(private db: Database) {}
+
+  /**
+   * Import a JSON array of pool snapshots; the whole file is rejected if any snapshot is inconsistent
+   */
+  async importFile(filePath: string): Promise<number> {
+    const records: SnapshotRecord[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(records)) {
+      throw new Error(`${filePath} must contain a JSON array of pool snapshots`);
+    }
+
+    const snapshots = records.map(record => this.parseRecord(record));
+
+    await this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const snapshot of snapshots) {
+        await this.save(snapshot);
+      }
+      await this.db.run('COMMIT');
+    } catch (error) {
+      await this.db.run('ROLLBACK');
+      throw error;
+    }
+
+    console.log(`✅ Imported ${snapshots.length} V3 pool snapshots from ${filePath}`);
+    return snapshots.length;
+  }
+
+  /**
+   * Store a snapshot, replacing any earlier one for the same pool and block
+   */
+  async save(snapshot: V3PoolSnapshot): Promise<void> {
+    const pool = await this.db.get<{ id: number, dex_type: string }>(
+      `SELECT id, dex_type FROM tbl_dex_pool WHERE chain_id = ? AND pool_address = ?`,
+      [this.chain.CHAIN_ID, snapshot.poolAddress]
+    );
+    if (!pool) {
+      throw new Error(`Pool ${snapshot.poolAddress} not found on ${this.chain.NAME}`);
+    }
+    if (!CONCENTRATED_LIQUIDITY_DEX_TYPES.includes(pool.dex_type)) {
+      throw new Error(`Pool ${snapshot.poolAddress} is a ${pool.dex_type} pool, not concentrated liquidity`);
+    }
+
+    await this.db.run(
+      `DELETE FROM tbl_dex_v3_snapshot WHERE pool_id = ? AND block_number = ?`,
+      [pool.id, snapshot.blockNumber]
+    );
+    const result = await this.db.run(
+      `INSERT INTO tbl_dex_v3_snapshot (chain_id, pool_id, block_number, sqrt_price_x96, tick, liquidity, tick_spacing)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        this.chain.CHAIN_ID, pool.id, snapshot.blockNumber, snapshot.sqrtPriceX96.toString(),
+        snapshot.tick, snapshot.liquidity.toString(), snapshot.tickSpacing
+      ]
+    );
+
+    for (const tick of snapshot.ticks) {
+      await this.db.run(
+        `INSERT INTO tbl_dex_v3_tick (snapshot_id, tick, liquidity_net) VALUES (?, ?, ?)`,
+        [result.lastID, tick.tick, tick.liquidityNet.toString()]
+      );
+    }
+  }
+
+  /**
+   * Most recent snapshot of each given pool; pools never snapshotted are left out
+   */
+  async getLatest(pools: PoolInfo[]): Promise<Map<string, V3PoolSnapshot>> {
+    const snapshots = new Map<string, V3PoolSnapshot>();
+    const ids = pools.map(pool => pool.id);
+    if (ids.length === 0) return snapshots;
+
+    const rows = await this.db.all<SnapshotRow[]>(`
+      SELECT s.id, p.pool_address, s.block_number, s.sqrt_price_x96, s.tick, s.liquidity, s.tick_spacing
+      FROM tbl_dex_v3_snapshot s
+      JOIN tbl_dex_pool p ON p.id = s.pool_id
+      WHERE s.pool_id IN (${ids.map(() => '?').join(',')})
+        AND s.block_number = (SELECT MAX(block_number) FROM tbl_dex_v3_snapshot WHERE pool_id = s.pool_id)
+    `, ids);
+
+    for (const row of rows) {
+      const ticks = await this.db.all<Array<{ tick: number, liquidity_net: string }>>(
+        `SELECT tick, liquidity_net FROM tbl_dex_v3_tick WHERE snapshot_id = ? ORDER BY tick`,
+        [row.id]
+      );
+
+      snapshots.set(row.pool_address, {
+        poolAddress: row.pool_address,
+        blockNumber: row.block_number,
+        sqrtPriceX96: BigInt(row.sqrt_price_x96),
+        tick: row.tick,
+        liquidity: BigInt(row.liquidity),
+        tickSpacing: row.tick_spacing,
+        ticks: ticks.map(tick => ({ tick: tick.tick, liquidityNet: BigInt(tick.liquidity_net) }))
+      });
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Parse and sanity-check one record: the tick list must be complete, so the net liquidity of all
+   * ticks sums to zero and the nets at or below the current tick add up to the in-range liquidity
+   */
+  private parseRecord(record: SnapshotRecord): V3PoolSnapshot {
+    const pool = String(record.pool ?? '').toLowerCase();
+    const fail = (detail: string): never => {
+      throw new Error(`Invalid snapshot for pool ${pool || '?'}: ${detail}`);
+    };
+
+    if (!/^0x[0-9a-f]{40}$/.test(pool)) fail('pool must be an address');
+    if (!Number.isInteger(record.blockNumber) || record.blockNumber < 0) fail('blockNumber must be a non-negative integer');
+    if (!Number.isInteger(record.tick)) fail('tick must be an integer');
+    if (!Number.isInteger(record.tickSpacing) || record.tickSpacing <= 0) fail('tickSpacing must be a positive integer');
+    if (!Array.isArray(record.ticks)) fail('ticks must be an array');
+
+    const toBigInt = (value: string, field: string): bigint => {
+      try {
+        return BigInt(value);
+      } catch {
+        return fail(`${field} must be an integer string`);
+      }
+    };
+
+    const sqrtPriceX96 = toBigInt(record.sqrtPriceX96, 'sqrtPriceX96');
+    const liquidity = toBigInt(record.liquidity, 'liquidity');
+    if (sqrtPriceX96 <= 0n) fail('sqrtPriceX96 must be positive');
+    if (liquidity < 0n) fail('liquidity must not be negative');
+
+    const ticks = record.ticks
+      .map(tick => ({ tick: tick.tick, liquidityNet: toBigInt(tick.liquidityNet, `liquidityNet of tick ${tick.tick}`) }))
+      .sort((a, b) => a.tick - b.tick);
+
+    let total = 0n;
+    let inRange = 0n;
+    for (let i = 0; i < ticks.length; i++) {
+      const { tick, liquidityNet } = ticks[i];
+      if (!Number.isInteger(tick) || tick % record.tickSpacing !== 0) fail(`tick ${tick} is not a multiple of ${record.tickSpacing}`);
+      if (i > 0 && ticks[i - 1].tick === tick) fail(`tick ${tick} is listed twice`);
+      total += liquidityNet;
+      if (tick <= record.tick) inRange += liquidityNet;
+    }
+    if (total !== 0n) fail('liquidityNet does not sum to zero; the tick list is incomplete');
+    if (inRange !== liquidity) fail(`ticks give in-range liquidity ${inRange}, expected ${liquidity}`);
+
+    return {
+      poolAddress: pool,
+      blockNumber: record.blockNumber,
+      sqrtPriceX96,
+      tick: record.tick,
+      liquidity,
+      tickSpacing: record.tickSpacing,
+      ticks
+    };
+  }
+}
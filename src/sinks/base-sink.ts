@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { Writable } from 'stream';
+import { ArbitragePath, PathOutputType, PathSink, PathStep, PoolInfo } from '../types';
+import { SwapUtils } from '../utils/swap-utils';
+
+/**
+ * Common behaviour of sinks that stream one line per path to a file or stdout
+ */
+export abstract class StreamPathSink implements PathSink {
+  abstract readonly type: PathOutputType;
+  private stream: Writable | null = null;
+  private pathsWritten = 0;
+
+  /**
+   * @param target file path, or "stdout"
+   * @param append keep an existing file (resumed runs) instead of replacing it
+   */
+  constructor(protected readonly target: string, private readonly append = false) {}
+
+  protected abstract formatPath(path: ArbitragePath, steps: PathStep[]): string;
+
+  /**
+   * First line of a new output (e.g. a CSV header)
+   */
+  protected header(): string | null {
+    return null;
+  }
+
+  protected openStream(): Writable {
+    return fs.createWriteStream(this.target, { flags: this.append ? 'a' : 'w' });
+  }
+
+  /**
+   * Whether the sink closes its stream when done (stdout stays open)
+   */
+  protected get ownsStream(): boolean {
+    return true;
+  }
+
+  async initialize(): Promise<void> {
+    const hasContent = this.append && fs.existsSync(this.target) && fs.statSync(this.target).size > 0;
+    this.stream = this.openStream();
+    this.pathsWritten = 0;
+
+    const header = this.header();
+    if (header !== null && !hasContent) {
+      await this.write(header);
+    }
+  }
+
+  async addPath(path: ArbitragePath, poolCache: Map<string, PoolInfo>): Promise<void> {
+    await this.write(this.formatPath(path, SwapUtils.pathSteps(path, poolCache)));
+    this.pathsWritten++;
+  }
+
+  addCheckpoint(): void {
+    // Only the SQLite sink records explored first edges
+  }
+
+  async finalize(): Promise<void> {
+    await this.close();
+    console.log(`📝 ${this.pathsWritten} paths written to ${this.type} output ${this.target}`);
+  }
+
+  async cleanup(): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Write one line, waiting for the stream to drain when its buffer is full
+   */
+  private async write(line: string): Promise<void> {
+    const stream = this.stream!;
+    if (!stream.write(line + '\n')) {
+      await new Promise<void>((resolve, reject) => {
+        stream.once('drain', resolve);
+        stream.once('error', reject);
+      });
+    }
+  }
+
+  private async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream || !this.ownsStream) return;
+
+    await new Promise<void>((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { ArbitragePath, PathOutputType, PathSink, PoolInfo } from '../types';
+
+/**
+ * Fans every call out to several sinks in the order they were configured
+ */
+export class CompositePathSink implements PathSink {
+  readonly type: PathOutputType;
+
+  constructor(private sinks: PathSink[]) {
+    this.type = sinks[0].type;
+  }
+
+  async initialize(runId: number | null): Promise<void> {
+    for (const sink of this.sinks) await sink.initialize(runId);
+  }
+
+  async addPath(path: ArbitragePath, poolCache: Map<string, PoolInfo>): Promise<void> {
+    for (const sink of this.sinks) await sink.addPath(path, poolCache);
+  }
+
+  addCheckpoint(anchor: string, firstPool: string): void {
+    this.sinks.forEach(sink => sink.addCheckpoint(anchor, firstPool));
+  }
+
+  async finalize(): Promise<void> {
+    for (const sink of this.sinks) await sink.finalize();
+  }
+
+  async cleanup(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.cleanup()));
+  }
+}
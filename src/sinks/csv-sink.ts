@@ -0,0 +1,38 @@
+import { ArbitragePath, PathStep } from '../types';
+import { StreamPathSink } from './base-sink';
+
+const COLUMNS = [
+  'anchor_token', 'cycle_key', 'direction', 'length', 'swap_path', 'load_run_id',
+  'tokens', 'pools', 'zero_for_one', 'fee_bps', 'dex_types'
+];
+
+/**
+ * One row per path; per-hop values are joined with "|"
+ */
+export class CsvPathSink extends StreamPathSink {
+  readonly type = 'csv' as const;
+
+  protected header(): string {
+    return COLUMNS.join(',');
+  }
+
+  protected formatPath(path: ArbitragePath, steps: PathStep[]): string {
+    return [
+      path.anchorToken,
+      path.cycleKey,
+      path.direction,
+      path.length,
+      path.swapPath,
+      path.loadRunId ?? '',
+      path.tokens.join('|'),
+      path.pools.join('|'),
+      steps.map(step => step.zeroForOne ? 1 : 0).join('|'),
+      steps.map(step => step.feeBps ?? '').join('|'),
+      steps.map(step => step.dexType).join('|')
+    ].map(value => CsvPathSink.escape(String(value))).join(',');
+  }
+
+  static escape(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
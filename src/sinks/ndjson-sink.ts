@@ -0,0 +1,26 @@
+import { ArbitragePath, PathOutputType, PathStep } from '../types';
+import { StreamPathSink } from './base-sink';
+
+/**
+ * One JSON object per line with the path, its steps and collapsed-hop candidates
+ */
+export class NdjsonPathSink extends StreamPathSink {
+  readonly type: PathOutputType = 'ndjson';
+
+  protected formatPath(path: ArbitragePath, steps: PathStep[]): string {
+    return JSON.stringify({
+      anchorToken: path.anchorToken,
+      cycleKey: path.cycleKey,
+      direction: path.direction,
+      length: path.length,
+      swapPath: path.swapPath,
+      loadRunId: path.loadRunId,
+      tokens: path.tokens,
+      pools: path.pools,
+      steps,
+      ...(path.candidates && {
+        candidates: path.candidates.map(hop => hop.map(pool => pool.pool_address))
+      })
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { Database } from 'sqlite';
+import { PathSink } from '../types';
+import { BatchProcessor } from '../services/batch-processor';
+import { CompositePathSink } from './composite-sink';
+import { CsvPathSink } from './csv-sink';
+import { NdjsonPathSink } from './ndjson-sink';
+import { StdoutPathSink } from './stdout-sink';
+
+/**
+ * Builds the path sinks for the configured outputs ("sqlite", "stdout", "ndjson:<file>", "csv:<file>")
+ */
+export class PathSinkFactory {
+  /**
+   * One sink for all outputs; file outputs are appended to when a run is resumed
+   */
+  static create(db: Database, outputs: readonly string[], append = false): PathSink {
+    const sinks = outputs.map(output => PathSinkFactory.createOne(db, output, append));
+    return sinks.length === 1 ? sinks[0] : new CompositePathSink(sinks);
+  }
+
+  private static createOne(db: Database, output: string, append: boolean): PathSink {
+    const [type, target] = output.split(/:(.*)/s);
+
+    switch (type) {
+      case 'sqlite':
+        return new BatchProcessor(db);
+      case 'stdout':
+        return new StdoutPathSink();
+      case 'ndjson':
+        return new NdjsonPathSink(target, append);
+      case 'csv':
+        return new CsvPathSink(target, append);
+      default:
+        throw new Error(`Unknown path output: ${output}`);
+    }
+  }
+}
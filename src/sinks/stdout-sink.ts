@@ -0,0 +1,22 @@
+import { Writable } from 'stream';
+import { PathOutputType } from '../types';
+import { NdjsonPathSink } from './ndjson-sink';
+
+/**
+ * NDJSON on standard output, for piping paths into other tools
+ */
+export class StdoutPathSink extends NdjsonPathSink {
+  readonly type: PathOutputType = 'stdout';
+
+  constructor() {
+    super('stdout');
+  }
+
+  protected openStream(): Writable {
+    return process.stdout;
+  }
+
+  protected get ownsStream(): boolean {
+    return false;
+  }
+}
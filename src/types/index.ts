@@ -1,10 +1,12 @@
+import { Database } from 'sqlite';
+
 // Core domain types
 export interface Token {
   id: string;
   name: string;
   symbol: string;
   decimals: string;
-  totalLiquidity: string;
+  totalLiquidity?: string;
 }
 
 export interface Pair {
@@ -12,7 +14,7 @@ export interface Pair {
   feeTier?: string;
   token0: Token;
   token1: Token;
-  volumeUSD: string;
+  volumeUSD?: string;
 }
 
 export interface DexFile {
@@ -26,6 +28,7 @@ export interface DexFile {
 export interface TokenInfo {
   address: string;
   symbol: string;
+  total_liquidity?: number | null;
 }
 
 export interface PoolInfo {
@@ -35,17 +38,165 @@ export interface PoolInfo {
   token0: string;
   token1: string;
   fee_tier?: string;
+  volume_usd?: number | null;
+  source_file?: string;
+  first_load_run_id?: number | null;
+  /** Last load run that found the pool again after it was marked stale */
+  revived_load_run_id?: number | null;
+  load_run_id?: number;
+  is_stale?: number;
+}
+
+// Load run tracking types
+export type LoadMode = 'insert' | 'incremental' | 'reimport';
+
+export interface LoadOptions {
+  mode: LoadMode;
+}
+
+export interface LoadContext {
+  runId: number;
+  chainId: number;
+  mode: LoadMode;
+  sourceFile: string;
+  /** When the source data was captured (file modification time), stored with volume/liquidity */
+  snapshotAt: string;
+}
+
+export interface LoadRunSummaryRow {
+  dexType: string;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// Ingest validation types
+export type QuarantineReason =
+  | 'MALFORMED_RECORD'
+  | 'INVALID_POOL_ADDRESS'
+  | 'INVALID_TOKEN_ADDRESS'
+  | 'IDENTICAL_TOKENS'
+  | 'INVALID_DECIMALS'
+  | 'MISSING_SYMBOL'
+  | 'DUPLICATE_POOL';
+
+export type ValidationResult =
+  | { valid: true; pair: Pair }
+  | { valid: false; reason: QuarantineReason; detail: string };
+
+/** Receives a record whose pool was already written (or queued) in the same load run; the record is not written */
+export type DuplicatePoolHandler = (raw: unknown, poolAddress: string) => Promise<void>;
+
+export interface QuarantineRecord {
+  id: number;
+  load_run_id: number | null;
+  chain_id: number;
+  dex_type: string;
+  source_file: string | null;
+  reason: QuarantineReason;
+  detail: string | null;
+  raw_json: string;
+  status: 'pending' | 'reimported';
+  created_at: string;
+  reimported_at: string | null;
 }
 
 // Graph types for arbitrage discovery
 export interface PoolEdge {
+  /** Pool address, or the pair key of a group of parallel pools */
   pool: string;
   toToken: string;
+  /** Pools behind a collapsed edge (absent for a single pool) */
+  poolCount?: number;
+}
+
+// Discovery run types
+export interface DiscoveryOptions {
+  /** Continue the last unfinished run with the same parameters instead of starting over */
+  resume: boolean;
+  /** Only search cycles through pools loaded after the last completed run with the same parameters */
+  delta: boolean;
+}
+
+export type DiscoveryRunStatus = 'running' | 'completed' | 'failed';
+
+/** Parameters a resumed run must share with the run it continues */
+export interface DiscoveryParams {
+  anchors: string[];
+  minHops: number;
+  maxHops: number;
+  minPoolVolumeUsd: number;
+  collapseParallelPools: boolean;
+  pruning: PruningConfig;
+}
+
+/** Pools (undirected edges) removed by each pruning rule, in the order the rules ran */
+export interface PruningReport {
+  rule: string;
+  removed: number;
+}
+
+export interface DiscoveryRun {
+  runId: number;
+  /** `${anchor}:${firstPool}` of first edges already explored and stored */
+  completed: Set<string>;
+}
+
+// Cycle search types
+export interface CycleSearchOptions {
+  minHops: number;
+  maxHops: number;
+  /** Emit only cycles through at least one of these token addresses (empty = all) */
+  requiredTokens: string[];
+  /** Emit only cycles using at least one of these edges (delta search; empty = all) */
+  requiredPools: string[];
+}
+
+export interface CycleSearchStats {
+  /** Cycles dropped for not passing through a required token */
+  rejectedCycles: number;
+}
+
+export interface FoundCycle {
+  /** Anchor first and last */
+  tokens: string[];
+  pools: string[];
+}
+
+/** workerData of a cycle search worker: one partition of the anchor's first edges */
+export interface CycleSearchTask {
+  adjMap: Map<string, PoolEdge[]>;
+  anchor: string;
+  firstEdges: PoolEdge[];
+  options: CycleSearchOptions;
+}
+
+export type CycleWorkerMessage =
+  | { type: 'cycles', cycles: FoundCycle[] }
+  | { type: 'edgeDone', firstPool: string }
+  | { type: 'done', stats: CycleSearchStats };
+
+/** Traversal direction of a path relative to its cycle's canonical pool order */
+export type PathDirection = 'forward' | 'reverse';
+
+export interface CanonicalCycle {
+  /** Pool addresses in canonical order, joined with '>' */
+  cycleKey: string;
+  direction: PathDirection;
 }
 
 export interface ArbitragePath {
+  /** Token the cycle starts and ends at */
+  anchorToken: string;
+  cycleKey: string;
+  direction: PathDirection;
   tokens: string[];
   pools: string[];
+  poolIds: number[];
+  /** Candidate pools per hop, best first, when parallel pools were collapsed */
+  candidates?: PoolInfo[][];
+  /** Load run that added the newest pool of the path */
+  loadRunId: number | null;
   length: number;
   swapPath: string;
 }
@@ -53,21 +204,317 @@ export interface ArbitragePath {
 export interface ArbitrageStep {
   pathId: number;
   stepIndex: number;
+  poolId: number | null;
   poolAddress: string;
   fromToken: string;
   toToken: string;
   isForward: boolean;
 }
 
+/** One hop of a path as written by the path sinks */
+export interface PathStep {
+  stepIndex: number;
+  poolId: number;
+  poolAddress: string;
+  fromToken: string;
+  toToken: string;
+  /** token0 in, token1 out */
+  zeroForOne: boolean;
+  feeBps: number | null;
+  dexType: string;
+}
+
+// Reserve and profitability types
+export interface PoolReserves {
+  poolAddress: string;
+  /** Raw token amounts (smallest units) */
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/** Reserves of a pool as of one block */
+export interface ReserveSnapshot extends PoolReserves {
+  blockNumber: number;
+  /** Unix seconds */
+  blockTimestamp: number;
+}
+
+/**
+ * Where pool reserves come from for pricing
+ */
+export interface ReserveSource {
+  readonly name: string;
+  /** Reserves of the given pools; pools without known reserves are left out */
+  getReserves(pools: PoolInfo[]): Promise<Map<string, PoolReserves>>;
+}
+
+/** Directed swap through a pool weighted by -ln(marginal rate after fees) */
+export interface WeightedEdge {
+  pool: string;
+  toToken: string;
+  weight: number;
+}
+
+export interface ProfitableCycle {
+  /** Anchor first and last */
+  tokens: string[];
+  pools: string[];
+  /** Product of the marginal rates after fees: output per unit of input for a tiny trade */
+  rate: number;
+}
+
+export interface ProfitSearchStats {
+  /** Walk extensions skipped because they would repeat a token or pool */
+  revisitsSkipped: number;
+}
+
+// Concentrated liquidity types
+export interface V3Tick {
+  tick: number;
+  /** Liquidity added when the price crosses this tick upwards */
+  liquidityNet: bigint;
+}
+
+/**
+ * Pool state needed to simulate a V3 swap exactly, as of one block
+ */
+export interface V3PoolSnapshot {
+  poolAddress: string;
+  blockNumber: number;
+  sqrtPriceX96: bigint;
+  /** slot0 tick: not derivable from the price when it sits exactly on a tick boundary */
+  tick: number;
+  /** In-range liquidity */
+  liquidity: bigint;
+  tickSpacing: number;
+  /** Every initialized tick in ascending order */
+  ticks: V3Tick[];
+}
+
+export interface V3SwapResult {
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  liquidityAfter: bigint;
+  ticksCrossed: number;
+}
+
+// Quote types
+export interface HopQuote {
+  stepIndex: number;
+  poolAddress: string;
+  dexType: string;
+  fromToken: string;
+  toToken: string;
+  feeBps: number | null;
+  /** Raw token amounts (smallest units) */
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Shortfall of the execution price after fees against the pool's spot price (0.01 = 1%) */
+  priceImpact: number;
+}
+
+export interface PathQuote {
+  pathId: number;
+  anchorToken: string;
+  swapPath: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** amountOut - amountIn in the anchor token; negative for a loss */
+  profit: bigint;
+  hops: HopQuote[];
+}
+
+/**
+ * A stored path with the pool state of every hop, so it can be quoted repeatedly without lookups
+ */
+export interface QuotablePath {
+  pathId: number;
+  anchorToken: string;
+  swapPath: string;
+  hops: QuotableHop[];
+}
+
+export interface QuotableHop {
+  stepIndex: number;
+  pool: PoolInfo;
+  fromToken: string;
+  toToken: string;
+  zeroForOne: boolean;
+  /** Constant-product hops */
+  reserves?: PoolReserves;
+  /** Concentrated-liquidity hops */
+  snapshot?: V3PoolSnapshot;
+}
+
+export type SizingMethod = 'closed-form' | 'numeric';
+
+export interface PathOptimum {
+  pathId: number;
+  /** Closed form when every hop is constant-product, otherwise a search over the input size */
+  method: SizingMethod;
+  /** Quote at the profit-maximizing input; null when no input size is profitable */
+  quote: PathQuote | null;
+}
+
+/**
+ * One path quoted at one input size, net of the gas cost model
+ */
+export interface PathEvaluation {
+  pathId: number;
+  anchorToken: string;
+  swapPath: string;
+  /** Raw anchor token amounts (smallest units) */
+  amountIn: bigint;
+  amountOut: bigint;
+  grossProfit: bigint;
+  gasUnits: number;
+  gasCost: bigint;
+  netProfit: bigint;
+  /** 1 = highest net profit among the evaluations of the same anchor */
+  rank: number;
+}
+
+// Path sink types
+export type PathOutputType = 'sqlite' | 'ndjson' | 'csv' | 'stdout';
+
+/**
+ * Destination for discovered paths. Sinks receive paths in discovery order; only the SQLite
+ * sink stores checkpoints, the others ignore them.
+ */
+export interface PathSink {
+  readonly type: PathOutputType;
+  /** Prepare the output; checkpoints belong to discovery run runId */
+  initialize(runId: number | null): Promise<void>;
+  addPath(path: ArbitragePath, poolCache: Map<string, PoolInfo>): Promise<void>;
+  /** First edge of the anchor fully explored: every path added before it is final */
+  addCheckpoint(anchor: string, firstPool: string): void;
+  /** Write everything still buffered and close the output */
+  finalize(): Promise<void>;
+  /** Release the output after a failed run */
+  cleanup(): Promise<void>;
+}
+
+// Pool deletion types
+/** What happens to stored paths that use a deleted pool */
+export type PathDeletionPolicy = 'invalidate' | 'cascade';
+
+export interface PoolDeletionResult {
+  deletedPools: number;
+  affectedPaths: number;
+}
+
 // Configuration types
 export interface BatchConfig {
   readonly PATHS_BATCH_SIZE: number;
   readonly STEPS_BATCH_SIZE: number;
   readonly FLUSH_INTERVAL_MS: number;
+  readonly LOAD_BATCH_SIZE: number;
 }
 
 export interface ArbitrageConfig {
-  readonly MAX_DEPTH: number;
-  readonly MIN_DEPTH: number;
-  readonly WETH_ADDRESS: string;
-}
\ No newline at end of file
+  /** Cycle length range in hops (swaps), inclusive */
+  readonly MAX_HOPS: number;
+  readonly MIN_HOPS: number;
+  /** Search pools between the same two tokens as one edge; paths list the candidate pools per hop */
+  readonly COLLAPSE_PARALLEL_POOLS: boolean;
+  /** Worker threads for cycle search (1 = search in the main thread) */
+  readonly WORKERS: number;
+  /** Anchor token addresses or symbols; defaults to the chain's wrapped native token */
+  readonly ANCHOR_TOKENS: readonly string[];
+  readonly MIN_POOL_VOLUME_USD: number;
+  /** Path outputs: "sqlite", "stdout", "ndjson:<file>" or "csv:<file>" */
+  readonly OUTPUTS: readonly string[];
+  /** Price from the latest recorded reserve snapshots instead of live view contract reads */
+  readonly RESERVES_FROM_SNAPSHOTS: boolean;
+}
+
+export interface ChainConfig {
+  readonly NAME: string;
+  readonly CHAIN_ID: number;
+  readonly WRAPPED_NATIVE: string;
+  readonly WRAPPED_NATIVE_SYMBOL: string;
+  /** JSON-RPC endpoint; "{INFURA_API_KEY}" is replaced with the INFURA_API_KEY env variable */
+  readonly RPC_URL: string;
+  /** Reserve view contract used by the liquidity cleaner (empty when not deployed) */
+  readonly VIEW_CONTRACT: string;
+}
+
+/** Discovery graph pruning; token entries are addresses or symbols, anchors are never pruned */
+export interface PruningConfig {
+  /** Only these tokens may appear between the anchors (empty = all) */
+  readonly TOKEN_ALLOWLIST: readonly string[];
+  readonly TOKEN_DENYLIST: readonly string[];
+  /** Only pools of these DEX types (empty = all) */
+  readonly INCLUDE_DEX_TYPES: readonly string[];
+  readonly EXCLUDE_DEX_TYPES: readonly string[];
+  /** Pools kept per intermediate token, highest volume first (0 = unlimited) */
+  readonly MAX_EDGES_PER_TOKEN: number;
+  /** Cycles must pass through at least one of these tokens (empty = any) */
+  readonly REQUIRED_TOKENS: readonly string[];
+}
+
+/** evaluate-paths: quoted sizes and the gas cost model */
+export interface EvaluationConfig {
+  /** Input sizes in whole anchor tokens */
+  readonly INPUT_SIZES: readonly string[];
+  readonly GAS_PRICE_GWEI: number;
+  /** Gas of a path's transaction besides its swaps */
+  readonly BASE_GAS: number;
+  /** Gas per swap of DEX types not in GAS_BY_DEX */
+  readonly GAS_PER_HOP: number;
+  /** Per-swap gas by DEX type as "dexType:gas" */
+  readonly GAS_BY_DEX: readonly string[];
+  readonly CSV_FILE: string;
+}
+
+export interface DataConfig {
+  readonly JSON_FOLDER: string;
+  readonly DATABASE_PATH: string;
+}
+
+export interface AppConfig {
+  readonly chain: ChainConfig;
+  readonly data: DataConfig;
+  readonly arbitrage: ArbitrageConfig;
+  readonly pruning: PruningConfig;
+  readonly batch: BatchConfig;
+  readonly evaluation: EvaluationConfig;
+}
+
+export type ConfigSource = 'default' | 'file' | 'profile' | 'env' | 'cli';
+
+export interface ConfigValueOrigin {
+  source: ConfigSource;
+  /** File path, profile name, env variable or CLI flag the value came from */
+  detail?: string;
+}
+
+// DEX source adapter types
+export type DexCollectionKey = 'pairs' | 'pools';
+
+export interface DexSourceAdapter {
+  /** Value stored in tbl_dex_pool.dex_type */
+  readonly dexType: string;
+  /** Filename prefixes handled by this adapter (e.g. "uniswapV3" for "uniswapV3-10.json") */
+  readonly filePrefixes: readonly string[];
+  /** Key under `data` holding the pool records */
+  readonly collectionKey: DexCollectionKey;
+  matches(fileName: string): boolean;
+  /** Convert a raw payload record into a Pair, or null when the record cannot be represented */
+  parseRecord(raw: any): Pair | null;
+  /** Fee in hundredths of a basis point (3000 = 0.30%) */
+  getFeeTier(pair: Pair): string;
+}
+
+// Schema migration types
+export interface Migration {
+  readonly version: number;
+  readonly name: string;
+  up(db: Database): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
@@ -0,0 +1,54 @@
+/** Fee tiers are in hundredths of a basis point */
+const FEE_DENOMINATOR = 1_000_000n;
+
+/**
+ * Exact Uniswap V2 / SushiSwap V2 swap math on raw token amounts
+ */
+export class ConstantProductMath {
+  /**
+   * Output of swapping amountIn against the reserves, as the pair contract computes it
+   * (for the 3000 fee tier this equals UniswapV2Library.getAmountOut's 997/1000 formula)
+   */
+  static getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeTier: bigint): bigint {
+    if (amountIn <= 0n) throw new Error('Insufficient input amount');
+    if (reserveIn <= 0n || reserveOut <= 0n) throw new Error('Insufficient liquidity');
+
+    const amountInWithFee = amountIn * (FEE_DENOMINATOR - feeTier);
+    return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+  }
+
+  /**
+   * Profit-maximizing input for a chain of constant-product hops, or 0 when no size is profitable.
+   * Each hop maps x to g*rOut*x / (rIn + g*x), and such maps compose into one of the same form
+   * A*x / (B + C*x); setting its derivative to 1 gives x = (sqrt(A*B) - B) / C.
+   */
+  static optimalAmountIn(hops: Array<{ reserveIn: bigint, reserveOut: bigint, feeTier: bigint }>): bigint {
+    // Scaled by FEE_DENOMINATOR per hop so g = (FEE_DENOMINATOR - fee) / FEE_DENOMINATOR stays integral
+    let a = 1n;
+    let b = 1n;
+    let c = 0n;
+    for (const hop of hops) {
+      const gamma = FEE_DENOMINATOR - hop.feeTier;
+      c = c * hop.reserveIn * FEE_DENOMINATOR + a * gamma;
+      a = a * gamma * hop.reserveOut;
+      b = b * hop.reserveIn * FEE_DENOMINATOR;
+    }
+
+    if (a <= b) return 0n;
+    return (ConstantProductMath.sqrt(a * b) - b) / c;
+  }
+
+  /**
+   * Integer square root (floor) by Newton's method
+   */
+  private static sqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+      x = y;
+      y = (x + value / x) / 2n;
+    }
+    return x;
+  }
+}
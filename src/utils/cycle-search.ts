@@ -0,0 +1,116 @@
+import { CycleSearchOptions, CycleSearchStats, FoundCycle, PoolEdge } from '../types';
+
+/**
+ * Pure cycle enumeration over a token adjacency map, shared by the in-process search and worker threads
+ */
+export class CycleSearch {
+  /**
+   * Every simple cycle through the anchor with options.minHops..options.maxHops swaps.
+   * No token other than the anchor and no pool repeats within a cycle. Pass firstEdges to
+   * search only cycles leaving the anchor through those edges (one partition of the search).
+   * Cycles missing all of options.requiredTokens are counted in stats instead of emitted.
+   * With options.requiredPools only cycles using one of those edges are searched: branches
+   * that can no longer reach such an edge within maxHops are cut.
+   */
+  static *findCycles(
+    adjMap: Map<string, PoolEdge[]>,
+    anchor: string,
+    options: CycleSearchOptions,
+    firstEdges: PoolEdge[] = adjMap.get(anchor) ?? [],
+    stats: CycleSearchStats = { rejectedCycles: 0 }
+  ): Generator<FoundCycle> {
+    const tokens: string[] = [anchor];
+    const pools: string[] = [];
+    const visitedPools = new Set<string>();
+    const visitedTokens = new Set<string>([anchor]);
+    const required = new Set(options.requiredTokens);
+    let requiredOnPath = required.has(anchor) ? 1 : 0;
+    const requiredPools = new Set(options.requiredPools);
+    const hopsToRequired = requiredPools.size > 0
+      ? CycleSearch.distancesToEdges(adjMap, requiredPools, options.maxHops)
+      : null;
+    let requiredPoolsOnPath = 0;
+
+    function* extend(edges: PoolEdge[]): Generator<FoundCycle> {
+      const hops = pools.length;
+
+      for (const { pool, toToken, poolCount } of edges) {
+        if (visitedPools.has(pool)) {
+          // A group of parallel pools can carry both hops of a 2-hop round trip, one pool each way
+          const roundTrip = toToken === anchor && hops === 1 && (poolCount ?? 1) > 1;
+          if (!roundTrip) continue;
+        }
+
+        const isRequiredPool = requiredPools.has(pool);
+
+        if (toToken === anchor) {
+          if (hops + 1 < options.minHops) continue;
+          if (hopsToRequired && requiredPoolsOnPath === 0 && !isRequiredPool) continue;
+
+          if (required.size > 0 && requiredOnPath === 0) {
+            stats.rejectedCycles++;
+          } else {
+            yield { tokens: [...tokens, anchor], pools: [...pools, pool] };
+          }
+          continue;
+        }
+
+        // Moving on only helps if at least one more hop can still close the cycle
+        if (hops + 1 >= options.maxHops || visitedTokens.has(toToken)) continue;
+
+        // Delta search: a required edge must still fit, plus at least the hop that uses it
+        if (hopsToRequired && requiredPoolsOnPath === 0 && !isRequiredPool) {
+          const distance = hopsToRequired.get(toToken);
+          if (distance === undefined || hops + 1 + distance + 1 > options.maxHops) continue;
+        }
+
+        tokens.push(toToken);
+        pools.push(pool);
+        visitedPools.add(pool);
+        visitedTokens.add(toToken);
+        if (required.has(toToken)) requiredOnPath++;
+        if (isRequiredPool) requiredPoolsOnPath++;
+
+        yield* extend(adjMap.get(toToken) ?? []);
+
+        if (isRequiredPool) requiredPoolsOnPath--;
+        if (required.has(toToken)) requiredOnPath--;
+        visitedTokens.delete(toToken);
+        visitedPools.delete(pool);
+        pools.pop();
+        tokens.pop();
+      }
+    }
+
+    yield* extend(firstEdges);
+  }
+
+  /**
+   * Fewest hops from each token to an endpoint of one of the given edges, up to maxDepth
+   */
+  static distancesToEdges(adjMap: Map<string, PoolEdge[]>, edgeIds: Set<string>, maxDepth: number): Map<string, number> {
+    const distances = new Map<string, number>();
+    let frontier: string[] = [];
+
+    for (const [token, edges] of adjMap) {
+      if (edges.some(edge => edgeIds.has(edge.pool))) {
+        distances.set(token, 0);
+        frontier.push(token);
+      }
+    }
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const token of frontier) {
+        for (const { toToken } of adjMap.get(token) ?? []) {
+          if (distances.has(toToken)) continue;
+          distances.set(toToken, depth);
+          next.push(toToken);
+        }
+      }
+      frontier = next;
+    }
+
+    return distances;
+  }
+}
@@ -0,0 +1,58 @@
+import { CanonicalCycle } from '../types';
+
+interface DirectedStep {
+  pool: string;
+  fromToken: string;
+}
+
+/**
+ * Utility functions for identifying cycles independent of anchor and direction
+ */
+export class CycleUtils {
+  /**
+   * Canonical key of a closed path (tokens[0] === tokens[last]) and the direction it is traversed in.
+   * The key is the pool sequence rotated to start at the smallest pool address, in the orientation
+   * whose second pool is smaller; 2-hop cycles visit the same pools either way, so their orientation
+   * is decided by the token the first pool is entered from.
+   */
+  static canonicalize(tokens: string[], pools: string[]): CanonicalCycle {
+    const forward: DirectedStep[] = pools.map((pool, i) => ({ pool, fromToken: tokens[i] }));
+    const reverse: DirectedStep[] = pools
+      .map((pool, i) => ({ pool, fromToken: tokens[i + 1] }))
+      .reverse();
+
+    const forwardRotated = CycleUtils.rotateToSmallestPool(forward);
+    const reverseRotated = CycleUtils.rotateToSmallestPool(reverse);
+    const isForward = CycleUtils.compare(forwardRotated, reverseRotated) <= 0;
+    const canonical = isForward ? forwardRotated : reverseRotated;
+
+    return {
+      cycleKey: canonical.map(step => step.pool).join('>'),
+      direction: isForward ? 'forward' : 'reverse'
+    };
+  }
+
+  /**
+   * Key of a cycle with a collapsed hop (a token pair standing for its parallel pools). The prefix keeps
+   * it apart from the per-pool cycles it stands for, which are stored under their own keys.
+   */
+  static collapsedKey(cycleKey: string): string {
+    return `collapsed:${cycleKey}`;
+  }
+
+  private static rotateToSmallestPool(steps: DirectedStep[]): DirectedStep[] {
+    let start = 0;
+    for (let i = 1; i < steps.length; i++) {
+      if (steps[i].pool < steps[start].pool) start = i;
+    }
+    return [...steps.slice(start), ...steps.slice(0, start)];
+  }
+
+  private static compare(a: DirectedStep[], b: DirectedStep[]): number {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i].pool !== b[i].pool) return a[i].pool < b[i].pool ? -1 : 1;
+    }
+    if (a[0].fromToken === b[0].fromToken) return 0;
+    return a[0].fromToken < b[0].fromToken ? -1 : 1;
+  }
+}
@@ -0,0 +1,113 @@
+import { ProfitableCycle, ProfitSearchStats, WeightedEdge } from '../types';
+
+interface WalkStep {
+  weight: number;
+  prevToken: string;
+  pool: string;
+}
+
+/**
+ * Profitable loops on a graph weighted by -ln(rate): a closed walk with negative total weight
+ * returns more of the anchor than it takes in
+ */
+export class NegativeCycleSearch {
+  /**
+   * Hop-bounded Bellman-Ford from the anchor, run once per first edge so every first pool reports
+   * its own best loop. Layer k holds the lightest simple k-hop walk to each token and is relaxed only
+   * from the tokens reached in layer k-1 (SPFA-style frontier); extensions that would repeat a token
+   * or pool are skipped and counted in stats. The anchor entry of each layer with minHops..maxHops hops
+   * is a profitable loop when its weight is negative. Keeping one walk per token and layer is a
+   * heuristic: a loop that needs a heavier walk to some token is not found.
+   */
+  static findFromAnchor(
+    graph: Map<string, WeightedEdge[]>,
+    anchor: string,
+    minHops: number,
+    maxHops: number,
+    stats: ProfitSearchStats = { revisitsSkipped: 0 }
+  ): ProfitableCycle[] {
+    const cycles: ProfitableCycle[] = [];
+
+    for (const firstEdge of graph.get(anchor) ?? []) {
+      const layers: Array<Map<string, WalkStep>> = [
+        new Map(),
+        new Map([[firstEdge.toToken, { weight: firstEdge.weight, prevToken: anchor, pool: firstEdge.pool }]])
+      ];
+
+      for (let hops = 1; hops <= maxHops; hops++) {
+        const layer = layers[hops];
+        const closing = layer.get(anchor);
+
+        if (closing && hops >= minHops && closing.weight < 0) {
+          cycles.push({ ...NegativeCycleSearch.reconstruct(layers, anchor, hops), rate: Math.exp(-closing.weight) });
+        }
+        if (hops === maxHops) break;
+
+        const next = new Map<string, WalkStep>();
+        for (const [token, step] of layer) {
+          // A walk ends once it is back at the anchor
+          if (token === anchor) continue;
+
+          for (const edge of graph.get(token) ?? []) {
+            // Swapping straight back through the same pool never pays after fees
+            if (edge.pool === step.pool) continue;
+
+            const weight = step.weight + edge.weight;
+            const current = next.get(edge.toToken);
+            if (current && weight >= current.weight) continue;
+
+            if (NegativeCycleSearch.revisits(layers, hops, token, edge)) {
+              stats.revisitsSkipped++;
+              continue;
+            }
+            next.set(edge.toToken, { weight, prevToken: token, pool: edge.pool });
+          }
+        }
+        layers.push(next);
+      }
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Whether extending the layer's walk to `token` with `edge` reuses one of its pools or tokens;
+   * the walk's own tokens exclude the anchor it starts from, so closing the loop is allowed
+   */
+  private static revisits(
+    layers: Array<Map<string, WalkStep>>,
+    hops: number,
+    token: string,
+    edge: WeightedEdge
+  ): boolean {
+    let current = token;
+    for (let layer = hops; layer >= 1; layer--) {
+      const step = layers[layer].get(current)!;
+      if (current === edge.toToken || step.pool === edge.pool) return true;
+      current = step.prevToken;
+    }
+    return false;
+  }
+
+  /**
+   * Walk the layers back from the anchor
+   */
+  private static reconstruct(
+    layers: Array<Map<string, WalkStep>>,
+    anchor: string,
+    hops: number
+  ): { tokens: string[], pools: string[] } {
+    const tokens = [anchor];
+    const pools: string[] = [];
+    let token = anchor;
+
+    for (let layer = hops; layer >= 1; layer--) {
+      const step = layers[layer].get(token)!;
+      pools.unshift(step.pool);
+      tokens.unshift(step.prevToken);
+      token = step.prevToken;
+    }
+
+    return { tokens, pools };
+  }
+}
@@ -1,4 +1,4 @@
-import { Pair } from '../types';
+import { ArbitragePath, Pair, PathStep, PoolInfo } from '../types';
 
 /**
  * Utility functions for swap operations
@@ -27,4 +27,33 @@ export class SwapUtils {
       (token0 === pool.token1.id && token1 === pool.token0.id)
     );
   }
+
+  /**
+   * Hops of a path with the swap direction, fee and DEX type of each pool
+   */
+  static pathSteps(path: ArbitragePath, poolCache: Map<string, PoolInfo>): PathStep[] {
+    return path.pools.map((poolAddress, i) => {
+      const pool = poolCache.get(poolAddress)!;
+      return {
+        stepIndex: i,
+        poolId: path.poolIds[i],
+        poolAddress,
+        fromToken: path.tokens[i],
+        toToken: path.tokens[i + 1],
+        // Swapping token0 for token1 is the pool's forward direction
+        zeroForOne: pool.token0 === path.tokens[i],
+        feeBps: SwapUtils.feeBps(pool.fee_tier),
+        dexType: pool.dex_type
+      };
+    });
+  }
+
+  /**
+   * Fee tier (hundredths of a basis point, as loaded from the source files) in basis points
+   */
+  static feeBps(feeTier?: string | null): number | null {
+    if (feeTier === undefined || feeTier === null || feeTier === '') return null;
+    const fee = Number(feeTier);
+    return Number.isFinite(fee) ? fee / 100 : null;
+  }
 }
\ No newline at end of file
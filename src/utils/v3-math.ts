@@ -0,0 +1,160 @@
+/**
+ * Uniswap V3 core math (TickMath, SqrtPriceMath, SwapMath) on bigints, reproducing the contracts'
+ * rounding and uint256 overflow branches so simulated swaps match on-chain results to the wei
+ */
+
+const Q96 = 1n << 96n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  const result = (a * b) / denominator;
+  if (result > MAX_UINT256) throw new Error('mulDiv overflow');
+  return result;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator + (product % denominator > 0n ? 1n : 0n);
+  if (result > MAX_UINT256) throw new Error('mulDiv overflow');
+  return result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+// 2^128 / sqrt(1.0001)^(2^i) for bit i of |tick|
+const TICK_RATIOS = [
+  0xfffcb933bd6fad37aa2d162d1a594001n, 0xfff97272373d413259a46990580e213an, 0xfff2e50f5f656932ef12357cf3c7fdccn,
+  0xffe5caca7e10e4e61c3624eaa0941cd0n, 0xffcb9843d60f6159c9db58835c926644n, 0xff973b41fa98c081472e6896dfb254c0n,
+  0xff2ea16466c96a3843ec78b326b52861n, 0xfe5dee046a99a2a811c461f1969c3053n, 0xfcbe86c7900a88aedcffc83b479aa3a4n,
+  0xf987a7253ac413176f2b074cf7815e54n, 0xf3392b0822b70005940c7a398e4b70f3n, 0xe7159475a2c29b7443b29c7fa6e889d9n,
+  0xd097f3bdfd2022b8845ad8f792aa5825n, 0xa9f746462d870fdf8a65dc1f90e061e5n, 0x70d869a156d2a1b890bb3df62baf32f7n,
+  0x31be135f97d08fd981231505542fcfa6n, 0x9aa508b5b7a84e1c677de54f3e99bc9n, 0x5d6af8dedb81196699c329225ee604n,
+  0x2216e584f5fa1ea926041bedfe98n, 0x48a170391f7dc42444e8fa2n
+];
+
+export class TickMath {
+  static readonly MIN_TICK = -887272;
+  static readonly MAX_TICK = 887272;
+  static readonly MIN_SQRT_RATIO = 4295128739n;
+  static readonly MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+  /**
+   * sqrt(1.0001^tick) as a Q64.96, rounded up like TickMath.getSqrtRatioAtTick
+   */
+  static getSqrtRatioAtTick(tick: number): bigint {
+    const absTick = Math.abs(tick);
+    if (!Number.isInteger(tick) || absTick > TickMath.MAX_TICK) throw new Error(`Tick out of range: ${tick}`);
+
+    let ratio = absTick & 0x1 ? TICK_RATIOS[0] : 1n << 128n;
+    for (let bit = 1; bit < TICK_RATIOS.length; bit++) {
+      if (absTick & (1 << bit)) ratio = (ratio * TICK_RATIOS[bit]) >> 128n;
+    }
+    if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+    return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+  }
+}
+
+export class SqrtPriceMath {
+  /**
+   * Price after adding amountIn of token0 (zeroForOne) or token1 at the given liquidity
+   */
+  static getNextSqrtPriceFromInput(sqrtPX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+    if (sqrtPX96 <= 0n || liquidity <= 0n) throw new Error('No price or liquidity');
+
+    return zeroForOne
+      ? SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn)
+      : SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn);
+  }
+
+  static getAmount0Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    const [lower, upper] = sqrtRatioA > sqrtRatioB ? [sqrtRatioB, sqrtRatioA] : [sqrtRatioA, sqrtRatioB];
+    const numerator1 = liquidity << 96n;
+    const numerator2 = upper - lower;
+
+    return roundUp
+      ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+      : mulDiv(numerator1, numerator2, upper) / lower;
+  }
+
+  static getAmount1Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    const [lower, upper] = sqrtRatioA > sqrtRatioB ? [sqrtRatioB, sqrtRatioA] : [sqrtRatioA, sqrtRatioB];
+
+    return roundUp
+      ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+      : mulDiv(liquidity, upper - lower, Q96);
+  }
+
+  private static getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96: bigint, liquidity: bigint, amount: bigint): bigint {
+    if (amount === 0n) return sqrtPX96;
+    const numerator1 = liquidity << 96n;
+
+    // The contract falls back to a less precise formula when the product overflows uint256
+    const product = amount * sqrtPX96;
+    if (product <= MAX_UINT256) {
+      const denominator = numerator1 + product;
+      if (denominator <= MAX_UINT256) {
+        return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+      }
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+  }
+
+  private static getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96: bigint, liquidity: bigint, amount: bigint): bigint {
+    const next = sqrtPX96 + (amount * Q96) / liquidity;
+    if (next > MAX_UINT160) throw new Error('Price overflow');
+    return next;
+  }
+}
+
+export interface SwapStep {
+  sqrtRatioNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+export class SwapMath {
+  /**
+   * One exact-input step towards the target price, as SwapMath.computeSwapStep with a positive amountRemaining
+   */
+  static computeSwapStepExactIn(
+    sqrtRatioCurrentX96: bigint,
+    sqrtRatioTargetX96: bigint,
+    liquidity: bigint,
+    amountRemaining: bigint,
+    feePips: bigint
+  ): SwapStep {
+    const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+    const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+
+    let amountIn = zeroForOne
+      ? SqrtPriceMath.getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+      : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+    const sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+      ? sqrtRatioTargetX96
+      : SqrtPriceMath.getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+    const reachedTarget = sqrtRatioNextX96 === sqrtRatioTargetX96;
+
+    let amountOut: bigint;
+    if (zeroForOne) {
+      if (!reachedTarget) amountIn = SqrtPriceMath.getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+      amountOut = SqrtPriceMath.getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+    } else {
+      if (!reachedTarget) amountIn = SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+      amountOut = SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+    }
+
+    const feeAmount = reachedTarget
+      ? mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips)
+      // The remainder of the input is taken as fee
+      : amountRemaining - amountIn;
+
+    return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+  }
+}
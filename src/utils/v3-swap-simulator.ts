@@ -0,0 +1,115 @@
+import { V3PoolSnapshot, V3SwapResult } from '../types';
+import { SwapMath, TickMath } from './v3-math';
+
+interface NextTick {
+  tick: number;
+  initialized: boolean;
+}
+
+/**
+ * Thrown when a swap's input is larger than a snapshot's liquidity can absorb
+ */
+export class InsufficientLiquidityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientLiquidityError';
+  }
+}
+
+/**
+ * Exact-input V3 swaps replayed against a stored pool snapshot, step for step as UniswapV3Pool.swap
+ */
+export class V3SwapSimulator {
+  /**
+   * Output of swapping amountIn through the pool; throws if the snapshot's liquidity can't absorb it
+   */
+  static exactInput(snapshot: V3PoolSnapshot, zeroForOne: boolean, amountIn: bigint, feePips: bigint): V3SwapResult {
+    const liquidityNet = new Map(snapshot.ticks.map(tick => [tick.tick, tick.liquidityNet]));
+    const compressedTicks = snapshot.ticks.map(tick => tick.tick / snapshot.tickSpacing);
+    const sqrtPriceLimitX96 = zeroForOne ? TickMath.MIN_SQRT_RATIO + 1n : TickMath.MAX_SQRT_RATIO - 1n;
+
+    let sqrtPriceX96 = snapshot.sqrtPriceX96;
+    let tick = snapshot.tick;
+    let liquidity = snapshot.liquidity;
+    let remaining = amountIn;
+    let amountOut = 0n;
+    let ticksCrossed = 0;
+
+    while (remaining > 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+      const next = V3SwapSimulator.nextInitializedTickWithinOneWord(compressedTicks, tick, snapshot.tickSpacing, zeroForOne);
+      const tickNext = Math.min(Math.max(next.tick, TickMath.MIN_TICK), TickMath.MAX_TICK);
+      const sqrtPriceNextX96 = TickMath.getSqrtRatioAtTick(tickNext);
+
+      const pastLimit = zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96;
+      const step = SwapMath.computeSwapStepExactIn(
+        sqrtPriceX96,
+        pastLimit ? sqrtPriceLimitX96 : sqrtPriceNextX96,
+        liquidity,
+        remaining,
+        feePips
+      );
+
+      sqrtPriceX96 = step.sqrtRatioNextX96;
+      remaining -= step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+
+      if (sqrtPriceX96 === sqrtPriceNextX96) {
+        if (next.initialized) {
+          const net = liquidityNet.get(tickNext)!;
+          liquidity += zeroForOne ? -net : net;
+          if (liquidity < 0n) {
+            throw new Error(`Snapshot of pool ${snapshot.poolAddress} has inconsistent liquidity at tick ${tickNext}`);
+          }
+          ticksCrossed++;
+        }
+        tick = zeroForOne ? tickNext - 1 : tickNext;
+      }
+    }
+
+    if (remaining > 0n) {
+      throw new InsufficientLiquidityError(`Swap exceeds the liquidity of pool ${snapshot.poolAddress}: ${remaining} of ${amountIn} left unfilled`);
+    }
+
+    return { amountOut, sqrtPriceX96After: sqrtPriceX96, liquidityAfter: liquidity, ticksCrossed };
+  }
+
+  /**
+   * TickBitmap.nextInitializedTickWithinOneWord over the sorted compressed ticks: the search stops at the
+   * 256-tick bitmap word boundary like the contract does, which decides where a swap splits into steps
+   */
+  private static nextInitializedTickWithinOneWord(
+    compressedTicks: number[],
+    tick: number,
+    tickSpacing: number,
+    lte: boolean
+  ): NextTick {
+    const compressed = Math.floor(tick / tickSpacing);
+
+    if (lte) {
+      const wordStart = compressed - (compressed & 0xff);
+      const index = V3SwapSimulator.lastIndexAtOrBelow(compressedTicks, compressed);
+      const initialized = index >= 0 && compressedTicks[index] >= wordStart;
+      return { tick: (initialized ? compressedTicks[index] : wordStart) * tickSpacing, initialized };
+    }
+
+    const from = compressed + 1;
+    const wordEnd = from + 255 - (from & 0xff);
+    const index = V3SwapSimulator.lastIndexAtOrBelow(compressedTicks, from - 1) + 1;
+    const initialized = index < compressedTicks.length && compressedTicks[index] <= wordEnd;
+    return { tick: (initialized ? compressedTicks[index] : wordEnd) * tickSpacing, initialized };
+  }
+
+  /**
+   * Index of the last value <= target in an ascending array, or -1
+   */
+  private static lastIndexAtOrBelow(values: number[], target: number): number {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[mid] <= target) low = mid + 1;
+      else high = mid;
+    }
+    return low - 1;
+  }
+}
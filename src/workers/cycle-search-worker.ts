@@ -0,0 +1,42 @@
+import { parentPort, workerData } from 'worker_threads';
+import { CycleSearch } from '../utils/cycle-search';
+import { CycleSearchStats, CycleSearchTask, CycleWorkerMessage, FoundCycle } from '../types';
+
+const CHUNK_SIZE = 1000;
+
+/**
+ * Post a chunk of cycles and wait until the writer has consumed it (keeps memory bounded)
+ */
+function sendChunk(cycles: FoundCycle[]): Promise<void> {
+  return new Promise(resolve => {
+    parentPort!.once('message', () => resolve());
+    parentPort!.postMessage({ type: 'cycles', cycles } as CycleWorkerMessage);
+  });
+}
+
+async function run(): Promise<void> {
+  const { adjMap, anchor, firstEdges, options } = workerData as CycleSearchTask;
+  const stats: CycleSearchStats = { rejectedCycles: 0 };
+  let chunk: FoundCycle[] = [];
+
+  // One first edge at a time so the writer can checkpoint each edge once its cycles are sent
+  for (const edge of firstEdges) {
+    for (const cycle of CycleSearch.findCycles(adjMap, anchor, options, [edge], stats)) {
+      chunk.push(cycle);
+      if (chunk.length >= CHUNK_SIZE) {
+        await sendChunk(chunk);
+        chunk = [];
+      }
+    }
+
+    if (chunk.length > 0) {
+      await sendChunk(chunk);
+      chunk = [];
+    }
+    parentPort!.postMessage({ type: 'edgeDone', firstPool: edge.pool } as CycleWorkerMessage);
+  }
+
+  parentPort!.postMessage({ type: 'done', stats } as CycleWorkerMessage);
+}
+
+run();
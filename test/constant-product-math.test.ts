@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConstantProductMath } from '../src/utils/constant-product-math';
+
+const e18 = 10n ** 18n;
+
+describe('ConstantProductMath.getAmountOut', () => {
+  it('matches UniswapV2Library.getAmountOut for the 0.30% tier', () => {
+    assert.equal(ConstantProductMath.getAmountOut(2n, 100n, 100n, 3000n), 1n);
+    assert.equal(ConstantProductMath.getAmountOut(e18, 100n * e18, 200n * e18, 3000n), 1974316068794122597n);
+  });
+
+  it('rejects empty input and empty reserves', () => {
+    assert.throws(() => ConstantProductMath.getAmountOut(0n, 100n, 100n, 3000n), /Insufficient input amount/);
+    assert.throws(() => ConstantProductMath.getAmountOut(1n, 0n, 100n, 3000n), /Insufficient liquidity/);
+  });
+});
+
+describe('ConstantProductMath.optimalAmountIn', () => {
+  // Anchor -> X at 2 X per anchor, X -> anchor at 100/190 anchor per X
+  const hops = [
+    { reserveIn: 100n * e18, reserveOut: 200n * e18, feeTier: 3000n },
+    { reserveIn: 190n * e18, reserveOut: 100n * e18, feeTier: 3000n }
+  ];
+  const profit = (amountIn: bigint) => hops.reduce(
+    (amount, hop) => ConstantProductMath.getAmountOut(amount, hop.reserveIn, hop.reserveOut, hop.feeTier),
+    amountIn
+  ) - amountIn;
+
+  it('returns floor((sqrt(A*B) - B) / C) for a profitable 2-hop cycle', () => {
+    assert.equal(ConstantProductMath.optimalAmountIn(hops), 1120742617037228867n);
+  });
+
+  it('reaches the largest integer profit of the cycle (25665473312211775, from an integer search)', () => {
+    const optimum = ConstantProductMath.optimalAmountIn(hops);
+    assert.equal(profit(optimum), 25665473312211775n);
+    assert.ok(profit(optimum) >= profit(optimum * 99n / 100n));
+    assert.ok(profit(optimum) >= profit(optimum * 101n / 100n));
+  });
+
+  it('returns 0 when no size is profitable', () => {
+    assert.equal(ConstantProductMath.optimalAmountIn([hops[0], { ...hops[1], reserveIn: 210n * e18 }]), 0n);
+  });
+});
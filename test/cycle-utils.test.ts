@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CycleUtils } from '../src/utils/cycle-utils';
+
+const [A, B, C] = ['0xaa', '0xbb', '0xcc'];
+const [P1, P2, P3] = ['0x01', '0x02', '0x03'];
+
+describe('CycleUtils.canonicalize', () => {
+  it('rotates to the smallest pool in the orientation with the smaller second pool', () => {
+    assert.deepEqual(CycleUtils.canonicalize([A, B, C, A], [P3, P1, P2]), { cycleKey: `${P1}>${P2}>${P3}`, direction: 'forward' });
+  });
+
+  it('gives every anchor of the cycle the same key and direction', () => {
+    assert.deepEqual(CycleUtils.canonicalize([B, C, A, B], [P1, P2, P3]), { cycleKey: `${P1}>${P2}>${P3}`, direction: 'forward' });
+    assert.deepEqual(CycleUtils.canonicalize([C, A, B, C], [P2, P3, P1]), { cycleKey: `${P1}>${P2}>${P3}`, direction: 'forward' });
+  });
+
+  it('marks the opposite traversal as reverse', () => {
+    assert.deepEqual(CycleUtils.canonicalize([A, C, B, A], [P2, P1, P3]), { cycleKey: `${P1}>${P2}>${P3}`, direction: 'reverse' });
+  });
+
+  it('orients 2-hop cycles by the token the first pool is entered from', () => {
+    assert.deepEqual(CycleUtils.canonicalize([A, B, A], [P1, P2]), { cycleKey: `${P1}>${P2}`, direction: 'forward' });
+    assert.deepEqual(CycleUtils.canonicalize([B, A, B], [P2, P1]), { cycleKey: `${P1}>${P2}`, direction: 'forward' });
+    assert.deepEqual(CycleUtils.canonicalize([A, B, A], [P2, P1]), { cycleKey: `${P1}>${P2}`, direction: 'reverse' });
+  });
+});
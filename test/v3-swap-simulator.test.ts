@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { V3PoolSnapshot } from '../src/types';
+import { SwapMath, TickMath } from '../src/utils/v3-math';
+import { InsufficientLiquidityError, V3SwapSimulator } from '../src/utils/v3-swap-simulator';
+
+const e18 = 10n ** 18n;
+const Q96 = 1n << 96n;
+
+describe('TickMath.getSqrtRatioAtTick', () => {
+  it('matches the v3-core bounds', () => {
+    assert.equal(TickMath.getSqrtRatioAtTick(0), Q96);
+    assert.equal(TickMath.getSqrtRatioAtTick(TickMath.MIN_TICK), TickMath.MIN_SQRT_RATIO);
+    assert.equal(TickMath.getSqrtRatioAtTick(TickMath.MAX_TICK), TickMath.MAX_SQRT_RATIO);
+  });
+});
+
+describe('SwapMath.computeSwapStepExactIn', () => {
+  // v3-core SwapMath.spec vectors
+  it('caps at the price target', () => {
+    const target = 79623317895830914510639640423n; // encodePriceSqrt(101, 100)
+    assert.deepEqual(SwapMath.computeSwapStepExactIn(Q96, target, 2n * e18, e18, 600n), {
+      sqrtRatioNextX96: target,
+      amountIn: 9975124224178055n,
+      amountOut: 9925619580021728n,
+      feeAmount: 5988667735148n
+    });
+  });
+
+  it('spends the whole input before the price target', () => {
+    const step = SwapMath.computeSwapStepExactIn(Q96, 250541448375047931186413801569n, 2n * e18, e18, 600n);
+    assert.equal(step.amountIn, 999400000000000000n);
+    assert.equal(step.amountOut, 666399946655997866n);
+    assert.equal(step.feeAmount, 600000000000000n);
+  });
+
+  it('takes an input smaller than the fee entirely as fee', () => {
+    const step = SwapMath.computeSwapStepExactIn(2413n, 79887613182836312n, 1985041575832132834610021537970n, 10n, 1872n);
+    assert.deepEqual(step, { sqrtRatioNextX96: 2413n, amountIn: 0n, amountOut: 0n, feeAmount: 10n });
+  });
+});
+
+describe('V3SwapSimulator.exactInput', () => {
+  // Positions [-600, 600) with 1e18 and [-1200, 1200) with 2e18, price at tick 0.
+  // Expected values come from an independent big-integer port of SwapMath/SqrtPriceMath.
+  const snapshot: V3PoolSnapshot = {
+    poolAddress: '0x0000000000000000000000000000000000000001',
+    blockNumber: 1,
+    sqrtPriceX96: Q96,
+    tick: 0,
+    liquidity: 3n * e18,
+    tickSpacing: 60,
+    ticks: [
+      { tick: -1200, liquidityNet: 2n * e18 },
+      { tick: -600, liquidityNet: e18 },
+      { tick: 600, liquidityNet: -e18 },
+      { tick: 1200, liquidityNet: -2n * e18 }
+    ]
+  };
+
+  it('crosses tick 600 upwards and continues with the outer position', () => {
+    assert.deepEqual(V3SwapSimulator.exactInput(snapshot, false, 10n ** 17n, 3000n), {
+      amountOut: 96482682624548973n,
+      sqrtPriceX96After: 81971319259554505403974355283n,
+      liquidityAfter: 2n * e18,
+      ticksCrossed: 1
+    });
+  });
+
+  it('crosses tick -600 downwards and continues with the outer position', () => {
+    assert.deepEqual(V3SwapSimulator.exactInput(snapshot, true, 10n ** 17n, 3000n), {
+      amountOut: 96482682624548973n,
+      sqrtPriceX96After: 76576805059228411357772564060n,
+      liquidityAfter: 2n * e18,
+      ticksCrossed: 1
+    });
+  });
+
+  it('throws InsufficientLiquidityError past the last initialized tick', () => {
+    assert.throws(() => V3SwapSimulator.exactInput(snapshot, false, 2n * 10n ** 17n, 3000n), InsufficientLiquidityError);
+  });
+});